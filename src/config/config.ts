@@ -6,6 +6,8 @@ import pino from 'pino';
 // Cargar variables de entorno
 dotenv.config();
 
+const embeddingProviderSchema = z.enum(['openai', 'azure', 'openai-compatible', 'hash']);
+
 // Schema de validación para la configuración
 const configSchema = z.object({
   // Supabase
@@ -16,16 +18,115 @@ const configSchema = z.object({
 
   // OpenAI
   openai: z.object({
-    apiKey: z.string().min(1, 'OpenAI API key es requerida'),
+    // Solo requerida si algún tenant usa el proveedor openai
+    apiKey: z.string().min(1, 'OpenAI API key es requerida').optional(),
+    model: z.string().min(1).default('text-embedding-3-small'),
     maxRetries: z.number().int().positive().default(3),
   }),
 
+  // Proveedores de embeddings
+  embedding: z.object({
+    provider: embeddingProviderSchema.default('openai'),
+    // Dimensión de la columna proyecto_vector.embedding; los embeddings deben coincidir exactamente
+    dimensions: z.number().int().positive().default(1536),
+    // Proveedor específico por tenant: { [inmobiliaria_id]: proveedor }
+    tenantProviders: z.record(embeddingProviderSchema).default({}),
+    azure: z.object({
+      endpoint: z.string().url('Endpoint de Azure OpenAI inválido').optional(),
+      apiKey: z.string().min(1).optional(),
+      deployment: z.string().min(1).optional(),
+      apiVersion: z.string().min(1).default('2024-10-21'),
+      model: z.string().min(1).default('text-embedding-3-small'), // Modelo desplegado en el deployment
+    }),
+    // Endpoint compatible con la API de OpenAI (Ollama, LM Studio, vLLM...)
+    compatible: z.object({
+      baseUrl: z.string().url('URL del endpoint de embeddings inválida').optional(),
+      apiKey: z.string().min(1).optional(),
+      model: z.string().min(1).default('nomic-embed-text'),
+    }),
+  }),
+
   // Monitor
   monitor: z.object({
     // Intervalo alto por defecto ya que ahora el sistema usa principalmente webhooks
     interval: z.number().int().positive().default(21600000), // 6 horas por defecto
     batchSize: z.number().int().positive().default(50),
     maxConcurrent: z.number().int().positive().default(3),
+    stateStore: z.enum(['supabase', 'memory']).default('supabase'),
+    watermarkOverlap: z.number().int().nonnegative().default(60000), // 1 minuto
+    // Fuente de cambios: webhooks (por defecto), polling periódico o Supabase Realtime
+    changeSource: z.enum(['webhook', 'polling', 'realtime']).default('webhook'),
+  }),
+
+  // Autenticación de webhooks
+  webhook: z.object({
+    // Hasta dos secretos activos para permitir la rotación sin cortes
+    secrets: z.array(z.string().min(16, 'El secreto del webhook debe tener al menos 16 caracteres')).max(2),
+    timestampTolerance: z.number().int().positive().default(300), // 5 minutos
+    bearerToken: z.string().min(1).optional(),
+  }),
+
+  // Transporte HTTP del servidor MCP (Streamable HTTP y SSE) en el servidor HTTP del servicio
+  mcpHttp: z.object({
+    enabled: z.boolean().default(false),
+    path: z.string().regex(/^(\/[\w.-]+)+$/, 'MCP_HTTP_PATH debe ser una ruta como /mcp').default('/mcp'),
+    sessionTtl: z.number().int().positive().default(1800000), // 30 minutos sin actividad
+    // Cada clave da acceso a una lista de tenants o a todos ('*')
+    apiKeys: z.array(z.object({
+      name: z.string().min(1),
+      key: z.string().min(32, 'La API key de MCP debe tener al menos 32 caracteres'),
+      tenants: z.union([z.literal('*'), z.array(z.string().uuid()).min(1)]),
+    })).default([])
+      .refine(keys => new Set(keys.map(key => key.name)).size === keys.length, 'Los nombres de MCP_API_KEYS deben ser únicos'),
+  }),
+
+  // Cola persistente de trabajos
+  queue: z.object({
+    store: z.enum(['supabase', 'memory']).default('supabase'),
+    pollInterval: z.number().int().positive().default(1000),
+    visibilityTimeout: z.number().int().positive().default(120000), // 2 minutos
+    maxAttempts: z.number().int().positive().default(5),
+    insertDelay: z.number().int().nonnegative().default(20000), // 20 segundos para INSERT
+    coalesceWindow: z.number().int().nonnegative().default(5000), // Ventana para agrupar ráfagas por proyecto
+  }),
+
+  // Fragmentación de contenidos largos (opcional)
+  chunking: z.object({
+    enabled: z.boolean().default(false),
+    chunkTokens: z.number().int().positive().max(8191).default(512),
+    overlapTokens: z.number().int().nonnegative().default(64),
+    maxChunks: z.number().int().positive().default(32),
+  }).refine(chunking => chunking.overlapTokens < chunking.chunkTokens, {
+    message: 'CHUNK_OVERLAP_TOKENS debe ser menor que CHUNK_TOKENS',
+  }),
+
+  // Plantillas de contenido por tenant
+  templates: z.object({
+    store: z.enum(['supabase', 'config']).default('supabase'),
+    file: z.string().min(1).optional(), // JSON con { default, tenants: { [inmobiliaria_id]: plantilla } }
+    cacheTtl: z.number().int().nonnegative().default(300000), // 5 minutos
+  }),
+
+  // Consumo de tokens y costos por tenant
+  usage: z.object({
+    store: z.enum(['supabase', 'memory']).default('supabase'),
+    flushInterval: z.number().int().positive().default(30000), // 30 segundos
+    // Precio en USD por millón de tokens: { [modelo]: precio }, complementa la tabla incluida
+    modelPrices: z.record(z.number().nonnegative()).default({}),
+  }),
+
+  // Presupuestos de embeddings por tenant
+  budgets: z.object({
+    store: z.enum(['supabase', 'memory']).default('supabase'),
+    cacheTtl: z.number().int().nonnegative().default(60000), // 1 minuto
+    softLimitRatio: z.number().positive().max(1).default(0.8),
+    // Presupuesto de los tenants sin presupuesto propio
+    default: z.object({
+      dailyTokens: z.number().int().positive().optional(),
+      monthlyTokens: z.number().int().positive().optional(),
+      dailyCost: z.number().positive().optional(),
+      monthlyCost: z.number().positive().optional(),
+    }).default({}),
   }),
 
   // Rate Limiting
@@ -52,13 +153,28 @@ function parseNumber(value: string | undefined, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+// Función auxiliar para leer variables de entorno con JSON
+function parseJson<T>(name: string, defaultValue: T): T {
+  const value = process.env[name]?.trim();
+  if (!value) return defaultValue;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`${name} no contiene un JSON válido`);
+  }
+}
+
 // Verificar si estamos en modo demo
 const isDemoMode = process.env.DEMO_MODE === 'true';
 
 function createConfig(): Config {
   try {
     // Verificar que las variables requeridas estén presentes y no vacías
-    if (!isDemoMode && (!process.env.SUPABASE_URL?.trim() || !process.env.SUPABASE_SERVICE_ROLE_KEY?.trim() || !process.env.OPENAI_API_KEY?.trim())) {
+    // OPENAI_API_KEY solo es necesaria cuando se usa el proveedor openai
+    const embeddingProvider = process.env.EMBEDDING_PROVIDER || 'openai';
+    const tenantProviders = parseJson<Record<string, string>>('EMBEDDING_TENANT_PROVIDERS', {});
+    const usesOpenAI = embeddingProvider === 'openai' || Object.values(tenantProviders).includes('openai');
+    if (!isDemoMode && (!process.env.SUPABASE_URL?.trim() || !process.env.SUPABASE_SERVICE_ROLE_KEY?.trim() || (usesOpenAI && !process.env.OPENAI_API_KEY?.trim()))) {
       throw new Error('Variables de entorno requeridas no están configuradas. Configure SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY y OPENAI_API_KEY, o active el modo DEMO con DEMO_MODE=true');
     }
 
@@ -69,15 +185,86 @@ function createConfig(): Config {
         serviceRoleKey: isDemoMode ? 'demo-service-role-key' : process.env.SUPABASE_SERVICE_ROLE_KEY,
       },
       openai: {
-        apiKey: isDemoMode ? 'demo-openai-api-key' : process.env.OPENAI_API_KEY,
+        apiKey: isDemoMode ? 'demo-openai-api-key' : (process.env.OPENAI_API_KEY?.trim() || undefined),
+        model: process.env.OPENAI_MODEL || 'text-embedding-3-small',
         maxRetries: parseNumber(process.env.MAX_RETRIES, 3),
       },
+      embedding: {
+        // En modo demo los embeddings se generan localmente sin llamadas externas
+        provider: isDemoMode ? 'hash' : embeddingProvider,
+        dimensions: parseNumber(process.env.EMBEDDING_DIMENSIONS, 1536),
+        tenantProviders: isDemoMode ? {} : tenantProviders,
+        azure: {
+          endpoint: process.env.AZURE_OPENAI_ENDPOINT?.trim() || undefined,
+          apiKey: process.env.AZURE_OPENAI_API_KEY?.trim() || undefined,
+          deployment: process.env.AZURE_OPENAI_DEPLOYMENT?.trim() || undefined,
+          apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+          model: process.env.AZURE_OPENAI_MODEL || 'text-embedding-3-small',
+        },
+        compatible: {
+          baseUrl: process.env.EMBEDDING_BASE_URL?.trim() || undefined,
+          apiKey: process.env.EMBEDDING_API_KEY?.trim() || undefined,
+          model: process.env.EMBEDDING_MODEL || 'nomic-embed-text',
+        },
+      },
       monitor: {
         // Intervalo largo por defecto (6 horas) para el modo de respaldo
         // Se puede anular con la variable de entorno MONITOR_INTERVAL
         interval: parseNumber(process.env.MONITOR_INTERVAL, 21600000), // 6 horas (21600000 ms)
         batchSize: parseNumber(process.env.BATCH_SIZE, 50),
         maxConcurrent: parseNumber(process.env.MAX_CONCURRENT, 3),
+        // Almacenamiento del estado de sincronización (en memoria para modo demo)
+        stateStore: isDemoMode ? 'memory' : (process.env.SYNC_STATE_STORE || 'supabase'),
+        // Solapamiento de la marca de agua incremental para tolerar diferencias de reloj
+        watermarkOverlap: parseNumber(process.env.WATERMARK_OVERLAP, 60000),
+        changeSource: process.env.CHANGE_SOURCE || 'webhook',
+      },
+      webhook: {
+        secrets: [process.env.WEBHOOK_SECRET, process.env.WEBHOOK_SECRET_PREVIOUS]
+          .map(secret => secret?.trim())
+          .filter((secret): secret is string => !!secret),
+        timestampTolerance: parseNumber(process.env.WEBHOOK_TIMESTAMP_TOLERANCE, 300),
+        bearerToken: process.env.WEBHOOK_BEARER_TOKEN?.trim() || undefined,
+      },
+      mcpHttp: {
+        enabled: process.env.MCP_HTTP_ENABLED === 'true',
+        path: process.env.MCP_HTTP_PATH?.trim().replace(/\/+$/, '') || '/mcp',
+        sessionTtl: parseNumber(process.env.MCP_HTTP_SESSION_TTL, 1800000),
+        apiKeys: parseJson<unknown[]>('MCP_API_KEYS', []),
+      },
+      queue: {
+        // En modo demo la cola vive en memoria ya que no hay conexión a Supabase
+        store: isDemoMode ? 'memory' : (process.env.QUEUE_STORE || 'supabase'),
+        pollInterval: parseNumber(process.env.QUEUE_POLL_INTERVAL, 1000),
+        visibilityTimeout: parseNumber(process.env.QUEUE_VISIBILITY_TIMEOUT, 120000),
+        maxAttempts: parseNumber(process.env.QUEUE_MAX_ATTEMPTS, 5),
+        insertDelay: parseNumber(process.env.INSERT_DELAY, 20000),
+        coalesceWindow: parseNumber(process.env.QUEUE_COALESCE_WINDOW, 5000),
+      },
+      chunking: {
+        enabled: process.env.CHUNKING_ENABLED === 'true',
+        chunkTokens: parseNumber(process.env.CHUNK_TOKENS, 512),
+        overlapTokens: parseNumber(process.env.CHUNK_OVERLAP_TOKENS, 64),
+        maxChunks: parseNumber(process.env.CHUNK_MAX, 32),
+      },
+      templates: {
+        // En modo demo solo se usan las plantillas del archivo de configuración
+        store: isDemoMode ? 'config' : (process.env.CONTENT_TEMPLATE_STORE || 'supabase'),
+        file: process.env.CONTENT_TEMPLATES_FILE?.trim() || undefined,
+        cacheTtl: parseNumber(process.env.CONTENT_TEMPLATE_CACHE_TTL, 300000),
+      },
+      usage: {
+        // En modo demo el consumo solo se acumula en memoria
+        store: isDemoMode ? 'memory' : (process.env.USAGE_STORE || 'supabase'),
+        flushInterval: parseNumber(process.env.USAGE_FLUSH_INTERVAL, 30000),
+        modelPrices: parseJson<Record<string, number>>('EMBEDDING_MODEL_PRICES', {}),
+      },
+      budgets: {
+        // En modo demo los presupuestos solo se guardan en memoria
+        store: isDemoMode ? 'memory' : (process.env.BUDGET_STORE || 'supabase'),
+        cacheTtl: parseNumber(process.env.BUDGET_CACHE_TTL, 60000),
+        softLimitRatio: parseNumber(process.env.BUDGET_SOFT_LIMIT_RATIO, 0.8),
+        default: parseJson<Record<string, number>>('BUDGET_DEFAULT', {}),
       },
       rateLimit: {
         requestsPerMinute: parseNumber(process.env.RATE_LIMIT_PER_TENANT, 100),
@@ -128,8 +315,9 @@ export const logger = pino({
 export type { Config };
 
 // Constants
-export const VECTOR_DIMENSIONS = 1536; // Dimensiones del modelo text-embedding-ada-002
-export const MAX_CONTENT_LENGTH = 8192; // Máximo número de tokens para embedding
+export const MAX_CONTENT_LENGTH = 8191; // Máximo número de tokens por entrada de embedding (límite de los modelos de OpenAI)
+export const EMBEDDING_BATCH_MAX_ITEMS = 100; // Máximo de entradas por request de embeddings
+export const EMBEDDING_BATCH_MAX_TOKENS = 100000; // Máximo de tokens por request de embeddings
 export const BATCH_TIMEOUT = 30000; // 30 segundos timeout para procesamiento de batch
 export const HEALTH_CHECK_INTERVAL = 60000; // 1 minuto entre health checks
 export const MAX_RETRY_DELAY = 300000; // 5 minutos máximo delay entre reintentos
\ No newline at end of file
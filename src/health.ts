@@ -1,10 +1,46 @@
 import http from 'http';
 import { logger } from './config/config.js';
-import { monitorService } from './lib/monitor.js';
+import { jobQueueService } from './lib/queue.js';
+import { parseWebhookPayload } from './lib/webhook-payload.js';
+import { isWebhookAuthEnabled, verifyJobStatusRequest, verifyWebhookRequest } from './lib/webhook-auth.js';
+import { closeMcpSessions, handleMcpRequest, startMcpHttp } from './mcp-http.js';
+
+/**
+ * Responde 401 y deja registro de auditoría de la solicitud rechazada
+ */
+function rejectUnauthorized(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  reason: string | undefined,
+  startTime: number
+) {
+  logger.warn({
+    audit: true,
+    reason,
+    method: req.method,
+    url: req.url,
+    remoteAddress: req.socket.remoteAddress,
+    forwardedFor: req.headers['x-forwarded-for'],
+    userAgent: req.headers['user-agent']
+  }, 'Solicitud de webhook rechazada por autenticación');
+  
+  res.writeHead(401, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    success: false,
+    error: 'No autorizado',
+    reason,
+    processingTimeMs: Date.now() - startTime
+  }));
+}
 
 export function startHealthServer(port = 3000) {
-  // Creamos un servidor HTTP para health checks y webhooks
+  // Creamos un servidor HTTP para health checks, webhooks y el transporte HTTP de MCP
   const server = http.createServer((req, res) => {
+    // Transporte MCP (Streamable HTTP y SSE) bajo MCP_HTTP_PATH
+    if (handleMcpRequest(req, res)) {
+      return;
+    }
+    
     // Endpoint de health check
     if (req.url === '/health' && req.method === 'GET') {
       res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -18,40 +54,31 @@ export function startHealthServer(port = 3000) {
     // Endpoint para webhooks de actualización de proyectos
     if (req.url === '/webhook/project-update' && req.method === 'POST') {
       const startTime = Date.now();
-      let body = '';
+      const chunks: Buffer[] = [];
       
-      // Timeout para el procesamiento de webhooks (30 segundos)
-      const timeout = setTimeout(() => {
-        logger.error('Timeout procesando webhook - operación cancelada después de 30 segundos');
-        res.writeHead(504, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({
-          success: false,
-          error: 'Timeout procesando webhook',
-          processingTimeMs: Date.now() - startTime
-        }));
-      }, 30000);
-      
-      req.on('data', chunk => {
-        body += chunk.toString();
+      req.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
       });
       
       req.on('end', async () => {
         try {
           // Registrar la recepción del webhook
           const receivedAt = new Date().toISOString();
+          const rawBody = Buffer.concat(chunks);
+          const body = rawBody.toString('utf8');
           logger.info({ bodyLength: body.length, receivedAt }, 'Webhook recibido: cuerpo del mensaje');
           
+          // Verificar firma HMAC, timestamp y token antes de procesar el contenido
+          const auth = verifyWebhookRequest(req.headers, rawBody);
+          if (!auth.valid) {
+            rejectUnauthorized(req, res, auth.reason, startTime);
+            return;
+          }
+          
           let data;
           try {
             data = JSON.parse(body);
-            logger.info({
-              data,
-              event: data.event,
-              tenantId: data.inmobiliaria_id,
-              projectId: data.project_id
-            }, 'Webhook recibido: actualización de proyecto');
           } catch (error) {
-            clearTimeout(timeout);
             logger.error({ error, body }, 'Error parseando JSON del webhook');
             res.writeHead(400, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify({
@@ -63,99 +90,80 @@ export function startHealthServer(port = 3000) {
             return;
           }
           
-          if (!data.inmobiliaria_id || !data.project_id) {
-            clearTimeout(timeout);
-            logger.warn({ data }, 'Datos incompletos en webhook');
+          // Aceptar el formato propio y el de Supabase Database Webhooks
+          const parsed = parseWebhookPayload(data);
+          if (!parsed.ok) {
+            logger.warn({ data, error: parsed.error }, 'Datos incompletos en webhook');
             res.writeHead(400, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify({
               success: false,
-              error: 'Datos incompletos: se requiere inmobiliaria_id y project_id',
+              error: parsed.error,
               processingTimeMs: Date.now() - startTime,
               receivedAt
             }));
             return;
           }
           
-          // Procesar solo el proyecto específico
+          const webhook = parsed.webhook;
+          logger.info({
+            format: webhook.format,
+            event: webhook.event,
+            tenantId: webhook.inmobiliaria_id,
+            projectId: webhook.project_id,
+            hasRecord: !!webhook.change
+          }, 'Webhook recibido: actualización de proyecto');
+          
+          // Encolar el trabajo y responder inmediatamente; el worker de la cola
+          // se encarga del retraso para INSERT y de los reintentos
           try {
-            // Capturar el tiempo de inicio del procesamiento
-            const processStartTime = Date.now();
-            logger.info({
-              tenantId: data.inmobiliaria_id,
-              projectId: data.project_id,
-              event: data.event || 'INSERT/UPDATE',
-              fullData: data
-            }, 'Iniciando procesamiento de proyecto por webhook');
-            
-            // Retraso inicial para inserciones nuevas - permitir que la transacción se complete
-            if (data.event === 'INSERT') {
-              const delayTime = 20000; // 20 segundos para inserciones nuevas
-              logger.info({
-                tenantId: data.inmobiliaria_id,
-                projectId: data.project_id,
-                delayMs: delayTime
-              }, 'Webhook para INSERT: aplicando retraso de 20 segundos para garantizar consistencia');
-              
-              await new Promise(resolve => setTimeout(resolve, delayTime));
-            }
-            
-            // Verificar que el proyecto exista usando múltiples enfoques
-            await monitorService.processProject(data.inmobiliaria_id, data.project_id);
-            
-            clearTimeout(timeout);
-            const processingTime = Date.now() - startTime;
-            const processingTimeMs = Date.now() - processStartTime;
+            const event = webhook.event;
+            const job = await jobQueueService.enqueue({
+              inmobiliaria_id: webhook.inmobiliaria_id,
+              project_id: webhook.project_id,
+              event,
+              // Si el payload incluye la fila no hace falta esperar a que la transacción sea visible
+              delayMs: webhook.change ? 0 : undefined,
+              payload: data
+            });
             
             logger.info({
-              tenantId: data.inmobiliaria_id,
-              projectId: data.project_id,
-              processingTimeMs,
-              totalTimeMs: processingTime
-            }, 'Webhook procesado correctamente');
+              jobId: job.id,
+              tenantId: webhook.inmobiliaria_id,
+              projectId: webhook.project_id,
+              event,
+              processingTimeMs: Date.now() - startTime
+            }, 'Webhook aceptado y encolado');
             
-            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.writeHead(202, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify({
               success: true,
-              message: `Proyecto ${data.project_id} procesado correctamente`,
-              processingTimeMs,
-              totalTimeMs: processingTime,
+              status: 'queued',
+              jobId: job.id,
+              availableAt: job.available_at,
+              processingTimeMs: Date.now() - startTime,
               receivedAt
             }));
           } catch (error) {
-            clearTimeout(timeout);
             const errorMessage = error instanceof Error ? error.message : 'Error interno del servidor';
-            const errorStack = error instanceof Error ? error.stack : undefined;
             
             logger.error({
               error,
               errorMessage,
-              errorStack,
               data,
-              tenantId: data.inmobiliaria_id,
-              projectId: data.project_id,
+              tenantId: webhook.inmobiliaria_id,
+              projectId: webhook.project_id,
               processingTimeMs: Date.now() - startTime
-            }, 'Error procesando webhook');
-            
-            // Determinar si es un error relacionado con condición de carrera
-            const isRaceCondition = errorMessage.includes('no encontrado') ||
-                                   errorMessage.includes('not found');
-            
-            // Código de estado basado en el tipo de error
-            const statusCode = isRaceCondition ? 404 : 500;
+            }, 'Error encolando webhook');
             
-            res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+            res.writeHead(500, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify({
               success: false,
               error: errorMessage,
-              isRaceCondition: isRaceCondition,
-              // Si es un error de carrera, sugerir reintentar
-              retryAfter: isRaceCondition ? 2 : undefined, // Segundos para reintentar
               processingTimeMs: Date.now() - startTime,
               receivedAt
             }));
           }
         } catch (error) {
-          clearTimeout(timeout);
           logger.error({ error }, 'Error inesperado procesando webhook');
           res.writeHead(500, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify({
@@ -170,6 +178,35 @@ export function startHealthServer(port = 3000) {
       return;
     }
     
+    // Endpoint para consultar el estado de un trabajo encolado
+    const jobMatch = req.url?.match(/^\/webhook\/jobs\/([0-9a-f-]{36})$/i);
+    if (jobMatch && req.method === 'GET') {
+      const auth = verifyJobStatusRequest(req.headers, req.method, jobMatch[0]);
+      if (!auth.valid) {
+        rejectUnauthorized(req, res, auth.reason, Date.now());
+        return;
+      }
+      
+      jobQueueService.getJob(jobMatch[1])
+        .then(job => {
+          // El payload original (fila del proyecto) no se expone en la consulta de estado
+          const { payload, ...jobStatus } = job ?? {};
+          res.writeHead(job ? 200 : 404, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(job
+            ? { success: true, job: jobStatus }
+            : { success: false, error: 'Trabajo no encontrado' }));
+        })
+        .catch(error => {
+          logger.error({ error, jobId: jobMatch[1] }, 'Error consultando trabajo');
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({
+            success: false,
+            error: error instanceof Error ? error.message : 'Error desconocido'
+          }));
+        });
+      return;
+    }
+    
     // Ruta no encontrada
     res.writeHead(404, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({
@@ -180,6 +217,10 @@ export function startHealthServer(port = 3000) {
 
   server.listen(port, () => {
     logger.info(`Servidor HTTP corriendo en puerto ${port}`);
+    if (!isWebhookAuthEnabled()) {
+      logger.warn('Webhooks sin autenticación: configure WEBHOOK_SECRET y/o WEBHOOK_BEARER_TOKEN');
+    }
+    startMcpHttp();
   });
 
   // Manejar errores del servidor
@@ -189,8 +230,10 @@ export function startHealthServer(port = 3000) {
 
   // Manejar cierre limpio
   const shutdown = () => {
-    server.close(() => {
-      logger.info('Servidor HTTP cerrado');
+    closeMcpSessions().finally(() => {
+      server.close(() => {
+        logger.info('Servidor HTTP cerrado');
+      });
     });
   };
 
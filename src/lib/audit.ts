@@ -0,0 +1,385 @@
+import { createHash } from 'crypto';
+import { config, logger } from '../config/config.js';
+import { supabaseService } from './supabase.js';
+import { openaiService } from './openai.js';
+import { jobQueueService } from './queue.js';
+import { computeContentHash, contentTemplateService, renderProjectContent } from './content-template.js';
+import { Project } from '../types/project.js';
+import { VectorAuditRow } from '../types/vector.js';
+import {
+  AuditIssue,
+  AuditIssueType,
+  DegenerateReason,
+  DegenerateScanReport,
+  DegenerateVector,
+  TenantAuditReport
+} from '../types/audit.js';
+
+// Verificar si estamos en modo demo
+const isDemoMode = process.env.DEMO_MODE === 'true';
+
+// Filas por página al recorrer proyectos y vectores
+const AUDIT_PAGE_SIZE = 500;
+
+const ISSUE_TYPES: AuditIssueType[] = [
+  'MISSING_VECTOR',
+  'ORPHAN_VECTOR',
+  'STALE_VECTOR',
+  'WRONG_DIMENSIONS',
+  'WRONG_MODEL',
+  'CONTENT_MISMATCH',
+];
+
+const DEGENERATE_REASONS: DegenerateReason[] = [
+  'NON_FINITE',
+  'ZERO',
+  'CONSTANT',
+  'NEAR_ZERO_NORM',
+  'PLACEHOLDER',
+  'DUPLICATE',
+];
+
+// Por debajo de esta norma la similitud coseno deja de ser significativa
+const MIN_VECTOR_NORM = 1e-3;
+
+export interface AuditOptions {
+  repair?: boolean; // Encola la regeneración o eliminación de los vectores con problemas
+  issueLimit?: number; // Máximo de problemas listados por tipo (los contadores son completos)
+}
+
+export interface DegenerateScanOptions {
+  requeue?: boolean; // Encola la regeneración forzada de los vectores detectados
+  limit?: number; // Máximo de vectores listados (los contadores son completos)
+}
+
+/**
+ * Motivos por los que un embedding no es utilizable, sin considerar duplicados
+ */
+export function inspectEmbedding(embedding: number[], metadata?: Record<string, any>): DegenerateReason[] {
+  const reasons: DegenerateReason[] = [];
+
+  if (metadata?.model === 'placeholder') {
+    reasons.push('PLACEHOLDER');
+  }
+
+  if (!Array.isArray(embedding) || embedding.length === 0 || embedding.some(value => !Number.isFinite(value))) {
+    reasons.push('NON_FINITE');
+    return reasons;
+  }
+
+  if (embedding.every(value => value === 0)) {
+    reasons.push('ZERO');
+    return reasons;
+  }
+
+  if (embedding.every(value => value === embedding[0])) {
+    reasons.push('CONSTANT');
+  }
+
+  const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+  if (norm < MIN_VECTOR_NORM) {
+    reasons.push('NEAR_ZERO_NORM');
+  }
+
+  return reasons;
+}
+
+/**
+ * Auditoría de consistencia entre proyectos y proyecto_vector para un tenant completo
+ */
+export class VectorAuditService {
+  /**
+   * Compara todos los proyectos del tenant con sus vectores
+   * Con repair se encolan trabajos para corregir cada proyecto afectado: regeneración
+   * forzada del embedding o eliminación del vector huérfano
+   */
+  async auditTenant(tenantId: string, options: AuditOptions = {}): Promise<TenantAuditReport> {
+    if (isDemoMode) {
+      throw new Error('La auditoría de vectores no está disponible en modo demo');
+    }
+
+    const issueLimit = options.issueLimit ?? 100;
+    const expectedModel = openaiService.getModel(tenantId);
+    const expectedDimensions = config.embedding.dimensions;
+    const template = await contentTemplateService.getTemplate(tenantId);
+
+    logger.info({ tenantId, repair: !!options.repair }, 'Iniciando auditoría de vectores');
+
+    const [projects, vectors] = await Promise.all([
+      this.loadProjects(tenantId),
+      this.loadVectors(tenantId)
+    ]);
+
+    const found: Record<AuditIssueType, AuditIssue[]> = Object.fromEntries(
+      ISSUE_TYPES.map(type => [type, []])
+    ) as unknown as Record<AuditIssueType, AuditIssue[]>;
+    const addIssue = (type: AuditIssueType, projectId: string, detail: string) => {
+      found[type].push({ project_id: projectId, detail });
+    };
+
+    for (const project of projects.values()) {
+      const vector = vectors.get(project.id);
+      if (!vector) {
+        addIssue('MISSING_VECTOR', project.id, 'El proyecto no tiene vector');
+        continue;
+      }
+
+      const model = vector.metadata?.model;
+      if (vector.dimensions !== expectedDimensions) {
+        addIssue('WRONG_DIMENSIONS', project.id, `${vector.dimensions} dimensiones, se esperaban ${expectedDimensions}`);
+      }
+      if (model !== expectedModel) {
+        addIssue('WRONG_MODEL', project.id, `Generado con ${model ?? 'modelo desconocido'}, el tenant usa ${expectedModel}`);
+      }
+
+      // La huella se calcula con el modelo del vector para aislar los cambios de contenido
+      const { content } = renderProjectContent(project, template);
+      const contentChanged = !model || vector.metadata?.contentHash !== computeContentHash(content, model);
+      const olderThanProject = new Date(vector.updated_at).getTime() < new Date(project.updated_at).getTime();
+
+      if (olderThanProject && contentChanged) {
+        addIssue('STALE_VECTOR', project.id, `Vector del ${vector.updated_at}, proyecto modificado el ${project.updated_at}`);
+      } else if (vector.content !== content) {
+        addIssue('CONTENT_MISMATCH', project.id, 'El contenido guardado no coincide con el de la plantilla actual');
+      }
+    }
+
+    for (const vector of vectors.values()) {
+      if (!projects.has(vector.project_id)) {
+        addIssue('ORPHAN_VECTOR', vector.project_id, 'No existe un proyecto del tenant para este vector');
+      }
+    }
+
+    const affected = new Set(ISSUE_TYPES.flatMap(type => found[type].map(issue => issue.project_id)));
+    const report: TenantAuditReport = {
+      inmobiliaria_id: tenantId,
+      auditedAt: new Date().toISOString(),
+      expected: { model: expectedModel, dimensions: expectedDimensions },
+      totals: {
+        projects: projects.size,
+        vectors: vectors.size,
+        healthy: [...projects.keys()].filter(id => !affected.has(id)).length,
+        affectedProjects: affected.size
+      },
+      counts: Object.fromEntries(ISSUE_TYPES.map(type => [type, found[type].length])) as Record<AuditIssueType, number>,
+      issues: Object.fromEntries(
+        ISSUE_TYPES.map(type => [type, found[type].slice(0, issueLimit)])
+      ) as Record<AuditIssueType, AuditIssue[]>,
+      issueLimit
+    };
+
+    if (options.repair) {
+      report.repair = await this.repair(tenantId, found);
+    }
+
+    logger.info({
+      tenantId,
+      totals: report.totals,
+      counts: report.counts,
+      repair: report.repair
+    }, 'Auditoría de vectores completada');
+
+    return report;
+  }
+
+  /**
+   * Recorre los embeddings guardados (de un tenant o de todos) buscando vectores degenerados:
+   * valores no finitos, ceros, constantes, norma casi nula, placeholders y vectores idénticos
+   * entre proyectos con contenido distinto. Sin tenant se recorren los tenants activos uno a uno
+   * y los duplicados se buscan dentro de cada tenant. Con requeue se encola su regeneración forzada
+   */
+  async scanDegenerateVectors(tenantId: string | null, options: DegenerateScanOptions = {}): Promise<DegenerateScanReport> {
+    if (isDemoMode) {
+      throw new Error('El análisis de vectores no está disponible en modo demo');
+    }
+
+    const limit = options.limit ?? 100;
+    const flagged = new Map<string, DegenerateVector>();
+    const flag = (vector: { inmobiliaria_id: string; project_id: string }, reason: DegenerateReason) => {
+      const key = `${vector.inmobiliaria_id}:${vector.project_id}`;
+      let entry = flagged.get(key);
+      if (!entry) {
+        entry = { inmobiliaria_id: vector.inmobiliaria_id, project_id: vector.project_id, reasons: [] };
+        flagged.set(key, entry);
+      }
+      if (!entry.reasons.includes(reason)) {
+        entry.reasons.push(reason);
+      }
+      return entry;
+    };
+
+    logger.info({ tenantId, requeue: !!options.requeue }, 'Iniciando análisis de vectores degenerados');
+
+    // Un tenant cada vez: las huellas en memoria se limitan a los vectores del tenant en curso
+    const tenants = tenantId ? [tenantId] : await supabaseService.getActiveTenants();
+    let scanned = 0;
+    for (const tenant of tenants) {
+      scanned += await this.scanTenantVectors(tenant, flag);
+    }
+
+    const vectors = [...flagged.values()];
+    const report: DegenerateScanReport = {
+      inmobiliaria_id: tenantId,
+      scannedAt: new Date().toISOString(),
+      scanned,
+      counts: Object.fromEntries(DEGENERATE_REASONS.map(reason => [
+        reason,
+        vectors.filter(vector => vector.reasons.includes(reason)).length
+      ])) as Record<DegenerateReason, number>,
+      vectors: vectors.slice(0, limit),
+      limit,
+      requeued: 0
+    };
+
+    if (options.requeue) {
+      for (const vector of vectors) {
+        await jobQueueService.enqueue({
+          inmobiliaria_id: vector.inmobiliaria_id,
+          project_id: vector.project_id,
+          event: 'UPDATE',
+          delayMs: 0,
+          force: true
+        });
+      }
+      report.requeued = vectors.length;
+    }
+
+    logger.info({
+      tenantId,
+      scanned,
+      counts: report.counts,
+      requeued: report.requeued
+    }, 'Análisis de vectores degenerados completado');
+
+    return report;
+  }
+
+  /**
+   * Analiza los vectores de un tenant y marca los degenerados; retorna cuántos se recorrieron
+   * Solo se guardan los ids por huella: el contenido se consulta después para los grupos repetidos
+   */
+  private async scanTenantVectors(
+    tenantId: string,
+    flag: (vector: { inmobiliaria_id: string; project_id: string }, reason: DegenerateReason) => DegenerateVector
+  ): Promise<number> {
+    // Huella del embedding -> ids de los vectores que la comparten
+    const fingerprints = new Map<string, string[]>();
+    let scanned = 0;
+    let cursor: string | null = null;
+
+    for (;;) {
+      const page = await supabaseService.getVectorEmbeddingPage({ tenantId, afterId: cursor, limit: AUDIT_PAGE_SIZE });
+
+      for (const vector of page) {
+        scanned++;
+        const reasons = inspectEmbedding(vector.embedding, vector.metadata);
+        reasons.forEach(reason => flag(vector, reason));
+        if (reasons.includes('NON_FINITE')) {
+          continue;
+        }
+
+        const fingerprint = createHash('sha1').update(Buffer.from(new Float32Array(vector.embedding).buffer)).digest('hex');
+        const group = fingerprints.get(fingerprint);
+        if (group) {
+          group.push(vector.id);
+        } else {
+          fingerprints.set(fingerprint, [vector.id]);
+        }
+      }
+
+      if (page.length < AUDIT_PAGE_SIZE) {
+        break;
+      }
+      cursor = page[page.length - 1].id;
+    }
+
+    // Solo cuentan como duplicados los vectores idénticos de proyectos con contenido distinto
+    const groups = [...fingerprints.values()].filter(group => group.length > 1);
+    fingerprints.clear();
+
+    for (const group of groups) {
+      const members: Awaited<ReturnType<typeof supabaseService.getVectorContents>> = [];
+      for (let i = 0; i < group.length; i += AUDIT_PAGE_SIZE) {
+        members.push(...await supabaseService.getVectorContents(group.slice(i, i + AUDIT_PAGE_SIZE)));
+      }
+      if (new Set(members.map(member => member.content ?? '')).size < 2) {
+        continue;
+      }
+      for (const member of members) {
+        flag(member, 'DUPLICATE').duplicateOf = members
+          .filter(other => other !== member)
+          .map(other => other.project_id);
+      }
+    }
+
+    return scanned;
+  }
+
+  /**
+   * Encola un trabajo por proyecto afectado
+   * Se fuerza la regeneración porque la huella puede coincidir aunque el vector sea incorrecto
+   */
+  private async repair(
+    tenantId: string,
+    found: Record<AuditIssueType, AuditIssue[]>
+  ): Promise<NonNullable<TenantAuditReport['repair']>> {
+    const orphans = new Set(found.ORPHAN_VECTOR.map(issue => issue.project_id));
+    const regenerate = new Set(
+      ISSUE_TYPES
+        .filter(type => type !== 'ORPHAN_VECTOR')
+        .flatMap(type => found[type].map(issue => issue.project_id))
+    );
+
+    for (const projectId of regenerate) {
+      await jobQueueService.enqueue({
+        inmobiliaria_id: tenantId,
+        project_id: projectId,
+        event: 'UPDATE',
+        delayMs: 0,
+        force: true
+      });
+    }
+
+    for (const projectId of orphans) {
+      await jobQueueService.enqueue({
+        inmobiliaria_id: tenantId,
+        project_id: projectId,
+        event: 'DELETE',
+        delayMs: 0
+      });
+    }
+
+    return { regenerate: regenerate.size, remove: orphans.size };
+  }
+
+  private async loadProjects(tenantId: string): Promise<Map<string, Project>> {
+    const projects = new Map<string, Project>();
+    let cursor: string | null = null;
+
+    for (;;) {
+      const page = await supabaseService.getProjectsPage({ tenantId, afterId: cursor, limit: AUDIT_PAGE_SIZE });
+      page.forEach(project => projects.set(project.id, project));
+      if (page.length < AUDIT_PAGE_SIZE) {
+        return projects;
+      }
+      cursor = page[page.length - 1].id;
+    }
+  }
+
+  private async loadVectors(tenantId: string): Promise<Map<string, VectorAuditRow>> {
+    const vectors = new Map<string, VectorAuditRow>();
+    let cursor: string | null = null;
+
+    for (;;) {
+      const page = await supabaseService.getVectorAuditPage(tenantId, cursor, AUDIT_PAGE_SIZE);
+      page.forEach(vector => vectors.set(vector.project_id, vector));
+      if (page.length < AUDIT_PAGE_SIZE) {
+        return vectors;
+      }
+      cursor = page[page.length - 1].project_id;
+    }
+  }
+}
+
+// Exportar una instancia única del servicio
+export const vectorAuditService = new VectorAuditService();
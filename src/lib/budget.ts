@@ -0,0 +1,291 @@
+import { config, logger } from '../config/config.js';
+import { supabaseService } from './supabase.js';
+import { usageService } from './usage.js';
+import { estimateEmbeddingCost } from './pricing.js';
+import { BudgetLimitStatus, BudgetMetric, BudgetPeriod, BudgetStatus, TenantBudget } from '../types/budget.js';
+
+export type BudgetLimits = Pick<TenantBudget, 'daily_tokens' | 'monthly_tokens' | 'daily_cost' | 'monthly_cost'>;
+
+/**
+ * El tenant alcanzó un límite de su presupuesto
+ * Los trabajos afectados se posponen hasta `retryAt` (o hasta que se amplíe el presupuesto)
+ */
+export class BudgetExceededError extends Error {
+  readonly retryAt: string;
+
+  constructor(readonly tenantId: string, readonly limits: BudgetLimitStatus[]) {
+    // `used` incluye el consumo estimado del lote rechazado
+    super(`Presupuesto excedido: ${limits.map(limit =>
+      `${limit.period}/${limit.metric} ${formatAmount(limit.used, limit.metric)} estimados de ${formatAmount(limit.limit, limit.metric)}`
+    ).join(', ')}`);
+    this.name = 'BudgetExceededError';
+    this.retryAt = limits.map(limit => limit.resetsAt).sort().pop()!;
+  }
+}
+
+function formatAmount(value: number, metric: BudgetMetric): string {
+  return metric === 'cost' ? `$${value.toFixed(4)}` : `${Math.round(value)} tokens`;
+}
+
+/**
+ * Almacenamiento de los presupuestos por tenant
+ */
+export interface BudgetStore {
+  get(tenantId: string): Promise<TenantBudget | null>;
+  upsert(budget: TenantBudget): Promise<void>;
+  remove(tenantId: string): Promise<void>;
+}
+
+/**
+ * Presupuestos respaldados por la tabla vector_tenant_budgets de Supabase
+ */
+export class SupabaseBudgetStore implements BudgetStore {
+  async get(tenantId: string): Promise<TenantBudget | null> {
+    const { data, error } = await supabaseService.getClient()
+      .from('vector_tenant_budgets')
+      .select('*')
+      .eq('inmobiliaria_id', tenantId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error({ error, tenantId }, 'Error al obtener presupuesto');
+      throw error;
+    }
+
+    return data;
+  }
+
+  async upsert(budget: TenantBudget): Promise<void> {
+    const { error } = await supabaseService.getClient()
+      .from('vector_tenant_budgets')
+      .upsert(budget, { onConflict: 'inmobiliaria_id' });
+
+    if (error) {
+      logger.error({ error, tenantId: budget.inmobiliaria_id }, 'Error al guardar presupuesto');
+      throw error;
+    }
+  }
+
+  async remove(tenantId: string): Promise<void> {
+    const { error } = await supabaseService.getClient()
+      .from('vector_tenant_budgets')
+      .delete()
+      .eq('inmobiliaria_id', tenantId);
+
+    if (error) {
+      logger.error({ error, tenantId }, 'Error al eliminar presupuesto');
+      throw error;
+    }
+  }
+}
+
+/**
+ * Presupuestos en memoria, utilizados en modo demo (no sobreviven a reinicios)
+ */
+export class MemoryBudgetStore implements BudgetStore {
+  private budgets: Map<string, TenantBudget> = new Map();
+
+  async get(tenantId: string): Promise<TenantBudget | null> {
+    const budget = this.budgets.get(tenantId);
+    return budget ? { ...budget } : null;
+  }
+
+  async upsert(budget: TenantBudget): Promise<void> {
+    this.budgets.set(budget.inmobiliaria_id, { ...budget });
+  }
+
+  async remove(tenantId: string): Promise<void> {
+    this.budgets.delete(tenantId);
+  }
+}
+
+// Inicio del siguiente día y del siguiente mes UTC
+function periodResets(): Record<BudgetPeriod, string> {
+  const now = new Date();
+  return {
+    daily: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)).toISOString(),
+    monthly: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString()
+  };
+}
+
+/**
+ * Controla el gasto de embeddings de cada tenant con límites diarios y mensuales
+ * de tokens y de costo. Al superar el límite blando se emite una advertencia por
+ * periodo; al alcanzar un límite se rechaza la generación de embeddings
+ */
+export class BudgetService {
+  private cache: Map<string, { budget: TenantBudget | null; expiresAt: number }> = new Map();
+  private warned: Set<string> = new Set();
+
+  constructor(private store: BudgetStore) {}
+
+  /**
+   * Verifica que el tenant pueda consumir los tokens estimados con un modelo
+   * Lanza BudgetExceededError si algún límite se alcanzaría
+   */
+  async assertWithinBudget(tenantId: string, model: string, estimatedTokens: number): Promise<void> {
+    const status = await this.evaluate(tenantId, estimatedTokens, estimateEmbeddingCost(model, estimatedTokens));
+
+    if (status.state === 'EXCEEDED') {
+      const exceeded = status.limits.filter(limit => limit.used >= limit.limit);
+      logger.warn({
+        tenantId,
+        estimatedTokens,
+        limits: exceeded
+      }, 'Presupuesto de embeddings excedido, se rechaza la generación');
+      throw new BudgetExceededError(tenantId, exceeded);
+    }
+
+    if (status.state === 'WARNING') {
+      this.warnOnce(status);
+    }
+  }
+
+  /**
+   * Estado del presupuesto de un tenant con el consumo del día y del mes en curso
+   */
+  async getStatus(tenantId: string): Promise<BudgetStatus> {
+    return this.evaluate(tenantId, 0, 0);
+  }
+
+  /**
+   * Crea o modifica el presupuesto de un tenant
+   * Los límites omitidos conservan su valor; null elimina el límite
+   */
+  async setBudget(
+    tenantId: string,
+    changes: Partial<BudgetLimits> & { soft_limit_ratio?: number }
+  ): Promise<BudgetStatus> {
+    const existing = await this.store.get(tenantId);
+    const budget: TenantBudget = {
+      inmobiliaria_id: tenantId,
+      daily_tokens: null,
+      monthly_tokens: null,
+      daily_cost: null,
+      monthly_cost: null,
+      soft_limit_ratio: config.budgets.softLimitRatio,
+      ...existing,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+      updated_at: new Date().toISOString()
+    };
+
+    await this.store.upsert(budget);
+    this.cache.delete(tenantId);
+    logger.info({ budget }, 'Presupuesto de embeddings actualizado');
+
+    return this.getStatus(tenantId);
+  }
+
+  /**
+   * Elimina el presupuesto propio de un tenant (vuelve a aplicar el presupuesto por defecto)
+   */
+  async clearBudget(tenantId: string): Promise<BudgetStatus> {
+    await this.store.remove(tenantId);
+    this.cache.delete(tenantId);
+    logger.info({ tenantId }, 'Presupuesto de embeddings eliminado');
+
+    return this.getStatus(tenantId);
+  }
+
+  /**
+   * Evalúa los límites sumando al consumo actual el consumo adicional indicado
+   * Sin consumo adicional, un límite alcanzado exactamente cuenta como excedido
+   */
+  private async evaluate(tenantId: string, extraTokens: number, extraCost: number): Promise<BudgetStatus> {
+    const { budget, source } = await this.resolveBudget(tenantId);
+    if (!budget) {
+      return { inmobiliaria_id: tenantId, budget: null, source, state: 'OK', limits: [] };
+    }
+
+    const usage = usageService.getPeriodUsage(tenantId);
+    const resets = periodResets();
+    const candidates: [BudgetPeriod, BudgetMetric, number | null, number][] = [
+      ['daily', 'tokens', budget.daily_tokens, usage.day.tokens + extraTokens],
+      ['monthly', 'tokens', budget.monthly_tokens, usage.month.tokens + extraTokens],
+      ['daily', 'cost', budget.daily_cost, usage.day.cost + extraCost],
+      ['monthly', 'cost', budget.monthly_cost, usage.month.cost + extraCost],
+    ];
+
+    const limits: BudgetLimitStatus[] = candidates
+      .filter(([, , limit]) => limit !== null && limit !== undefined)
+      .map(([period, metric, limit, used]) => ({
+        period,
+        metric,
+        limit: limit!,
+        used,
+        ratio: used / limit!,
+        resetsAt: resets[period]
+      }));
+
+    const hasExtra = extraTokens > 0 || extraCost > 0;
+    const state = limits.some(limit => hasExtra ? limit.used > limit.limit : limit.used >= limit.limit)
+      ? 'EXCEEDED'
+      : limits.some(limit => limit.ratio >= budget.soft_limit_ratio) ? 'WARNING' : 'OK';
+
+    return { inmobiliaria_id: tenantId, budget, source, state, limits };
+  }
+
+  /**
+   * Presupuesto propio del tenant (con caché de config.budgets.cacheTtl ms) o el presupuesto por defecto
+   */
+  private async resolveBudget(tenantId: string): Promise<{ budget: TenantBudget | null; source: BudgetStatus['source'] }> {
+    let cached = this.cache.get(tenantId);
+    if (!cached || cached.expiresAt <= Date.now()) {
+      cached = { budget: await this.store.get(tenantId), expiresAt: Date.now() + config.budgets.cacheTtl };
+      this.cache.set(tenantId, cached);
+    }
+
+    if (cached.budget) {
+      return { budget: cached.budget, source: 'tenant' };
+    }
+
+    const defaults = config.budgets.default;
+    if (!defaults.dailyTokens && !defaults.monthlyTokens && !defaults.dailyCost && !defaults.monthlyCost) {
+      return { budget: null, source: 'none' };
+    }
+
+    return {
+      budget: {
+        inmobiliaria_id: tenantId,
+        daily_tokens: defaults.dailyTokens ?? null,
+        monthly_tokens: defaults.monthlyTokens ?? null,
+        daily_cost: defaults.dailyCost ?? null,
+        monthly_cost: defaults.monthlyCost ?? null,
+        soft_limit_ratio: config.budgets.softLimitRatio,
+        updated_at: new Date(0).toISOString()
+      },
+      source: 'default'
+    };
+  }
+
+  /**
+   * Emite una advertencia por cada límite blando superado, una vez por periodo
+   */
+  private warnOnce(status: BudgetStatus): void {
+    for (const limit of status.limits) {
+      if (limit.ratio < status.budget!.soft_limit_ratio) {
+        continue;
+      }
+
+      const key = `${status.inmobiliaria_id}:${limit.period}:${limit.metric}:${limit.resetsAt}`;
+      if (this.warned.has(key)) {
+        continue;
+      }
+      this.warned.add(key);
+
+      logger.warn({
+        tenantId: status.inmobiliaria_id,
+        period: limit.period,
+        metric: limit.metric,
+        used: limit.used,
+        limit: limit.limit,
+        ratio: Math.round(limit.ratio * 1000) / 10
+      }, 'Consumo de embeddings cerca del límite del presupuesto');
+    }
+  }
+}
+
+// Exportar una instancia única del servicio
+export const budgetService = new BudgetService(
+  config.budgets.store === 'memory' ? new MemoryBudgetStore() : new SupabaseBudgetStore()
+);
@@ -0,0 +1,233 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { config, logger } from '../config/config.js';
+import { supabaseService } from './supabase.js';
+import { Project } from '../types/project.js';
+import { ContentTemplate, RenderedContent, TemplateField } from '../types/template.js';
+
+// Verificar si estamos en modo demo
+const isDemoMode = process.env.DEMO_MODE === 'true';
+
+// Schema de validación de plantillas (las de Supabase y las del archivo de configuración)
+const templateSchema = z.object({
+  fields: z.array(z.object({
+    key: z.string().min(1),
+    label: z.string().min(1).optional(),
+    format: z.enum(['text', 'price', 'location', 'list', 'json']).optional(),
+  })).default([]),
+  includeRemaining: z.boolean().default(false),
+  exclude: z.array(z.string()).default([]),
+  separator: z.string().default('\n'),
+  locale: z.string().default('es'),
+  currency: z.string().length(3).optional(),
+});
+
+const templatesFileSchema = z.object({
+  default: templateSchema.optional(),
+  tenants: z.record(templateSchema).default({}),
+});
+
+/**
+ * Plantilla por defecto: nombre, descripción, precio y ubicación seguidos del resto
+ * de propiedades de caracteristicas
+ */
+export const DEFAULT_CONTENT_TEMPLATE: ContentTemplate = {
+  fields: [
+    { key: 'nombre' },
+    { key: 'caracteristicas', label: 'Descripción' }, // Este campo contiene la descripción del proyecto
+    { key: 'valor', label: 'Precio', format: 'price' },
+    { key: 'ubicacion', label: 'Ubicación', format: 'location' },
+  ],
+  includeRemaining: true,
+  exclude: [],
+  separator: '\n',
+  locale: 'es',
+};
+
+function getValue(source: Record<string, any>, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), source);
+}
+
+function isEmpty(value: any): boolean {
+  return value == null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+function formatPrice(value: any, template: ContentTemplate): string {
+  const amount = typeof value === 'number' ? value : Number(String(value).replace(/[^\d.-]/g, ''));
+  // Valores no numéricos (p.ej. "Consultar") se mantienen tal cual
+  if (typeof value !== 'number' && (!/\d/.test(String(value)) || !Number.isFinite(amount))) {
+    return String(value).trim();
+  }
+
+  try {
+    return new Intl.NumberFormat(template.locale, template.currency
+      ? { style: 'currency', currency: template.currency, maximumFractionDigits: 0 }
+      : { maximumFractionDigits: 2 }
+    ).format(amount);
+  } catch {
+    return String(value).trim();
+  }
+}
+
+function formatValue(value: any, field: TemplateField, template: ContentTemplate): string {
+  const format = field.format ?? (Array.isArray(value) ? 'list' : typeof value === 'object' ? 'location' : 'text');
+
+  switch (format) {
+    case 'price':
+      return formatPrice(value, template);
+    case 'location':
+      // Unir los valores simples del objeto (dirección, comuna, ciudad...) en su orden original
+      return typeof value === 'object'
+        ? Object.values(value).filter(part => !isEmpty(part) && typeof part !== 'object').join(', ')
+        : String(value).trim();
+    case 'list':
+      return Array.isArray(value)
+        ? value.filter(item => !isEmpty(item)).map(item => typeof item === 'object' ? JSON.stringify(item) : item).join(', ')
+        : String(value).trim();
+    case 'json':
+      return JSON.stringify(value);
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value).trim();
+  }
+}
+
+/**
+ * Genera el contenido del embedding de un proyecto a partir de una plantilla
+ * Solo los campos con valor se reflejan en processedFields
+ */
+export function renderProjectContent(project: Project, template: ContentTemplate): RenderedContent {
+  const caract = project.caracteristicas || {};
+  const excluded = new Set(template.exclude);
+  const parts: string[] = [];
+  const processedFields: string[] = [];
+
+  const fields: TemplateField[] = [...template.fields];
+  if (template.includeRemaining) {
+    const listed = new Set(template.fields.map(field => field.key.split('.')[0]));
+    for (const key of Object.keys(caract)) {
+      if (!listed.has(key)) {
+        fields.push({ key, label: key });
+      }
+    }
+  }
+
+  for (const field of fields) {
+    if (excluded.has(field.key)) {
+      continue;
+    }
+
+    const value = getValue(caract, field.key);
+    if (isEmpty(value)) {
+      continue;
+    }
+
+    const text = formatValue(value, field, template);
+    if (!text) {
+      continue;
+    }
+
+    parts.push(field.label ? `${field.label}: ${text}` : text);
+    processedFields.push(field.key);
+  }
+
+  return { content: parts.join(template.separator), processedFields };
+}
+
+/**
+ * Calcula la huella del contenido preparado junto con el modelo de embedding
+ * Un cambio de modelo invalida la huella aunque el contenido sea el mismo
+ */
+export function computeContentHash(content: string, model: string): string {
+  // Cambiar la configuración de fragmentación también obliga a regenerar los embeddings
+  const chunking = config.chunking.enabled
+    ? `chunks:${config.chunking.chunkTokens}/${config.chunking.overlapTokens}/${config.chunking.maxChunks}\n`
+    : '';
+  return createHash('sha256').update(`${model}\n${chunking}${content}`).digest('hex');
+}
+
+/**
+ * Resuelve la plantilla de contenido de cada tenant
+ * Orden de prioridad: tabla vector_content_templates (si el store es supabase),
+ * plantilla del tenant en CONTENT_TEMPLATES_FILE, plantilla default del archivo
+ * y finalmente DEFAULT_CONTENT_TEMPLATE
+ */
+export class ContentTemplateService {
+  private fileTemplates: z.infer<typeof templatesFileSchema> = { tenants: {} };
+  private cache: Map<string, { template: ContentTemplate; expiresAt: number }> = new Map();
+
+  constructor() {
+    if (config.templates.file) {
+      try {
+        this.fileTemplates = templatesFileSchema.parse(JSON.parse(readFileSync(config.templates.file, 'utf8')));
+        logger.info({
+          file: config.templates.file,
+          tenants: Object.keys(this.fileTemplates.tenants).length
+        }, 'Plantillas de contenido cargadas');
+      } catch (error) {
+        logger.error({ error, file: config.templates.file }, 'Error cargando plantillas de contenido');
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Obtiene la plantilla de un tenant (con caché de config.templates.cacheTtl ms)
+   */
+  async getTemplate(tenantId: string): Promise<ContentTemplate> {
+    const cached = this.cache.get(tenantId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.template;
+    }
+
+    const template = (await this.loadStoredTemplate(tenantId)) ??
+      this.fileTemplates.tenants[tenantId] ??
+      this.fileTemplates.default ??
+      DEFAULT_CONTENT_TEMPLATE;
+
+    this.cache.set(tenantId, { template, expiresAt: Date.now() + config.templates.cacheTtl });
+    return template;
+  }
+
+  /**
+   * Genera el contenido de un proyecto con la plantilla de su tenant
+   */
+  async buildContent(project: Project): Promise<RenderedContent> {
+    return renderProjectContent(project, await this.getTemplate(project.inmobiliaria_id));
+  }
+
+  private async loadStoredTemplate(tenantId: string): Promise<ContentTemplate | undefined> {
+    if (isDemoMode || config.templates.store !== 'supabase') {
+      return undefined;
+    }
+
+    const { data, error } = await supabaseService.getClient()
+      .from('vector_content_templates')
+      .select('template')
+      .eq('inmobiliaria_id', tenantId)
+      .maybeSingle();
+
+    if (error) {
+      // Sin acceso a la tabla se usa la plantilla de configuración
+      logger.warn({ error, tenantId }, 'Error al obtener plantilla de contenido, usando la de configuración');
+      return undefined;
+    }
+
+    if (!data?.template) {
+      return undefined;
+    }
+
+    const parsed = templateSchema.safeParse(data.template);
+    if (!parsed.success) {
+      logger.error({ tenantId, errors: parsed.error.errors }, 'Plantilla de contenido inválida, usando la de configuración');
+      return undefined;
+    }
+
+    return parsed.data;
+  }
+}
+
+// Exportar una instancia única del servicio
+export const contentTemplateService = new ContentTemplateService();
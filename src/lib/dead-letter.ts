@@ -0,0 +1,195 @@
+import { config, logger } from '../config/config.js';
+import { supabaseService } from './supabase.js';
+import { FailedProject, ProjectChange } from '../types/project.js';
+
+export interface FailedProjectFilter {
+  tenantId?: string;
+  projectIds?: string[];
+  limit?: number;
+}
+
+export interface RecordFailureInput {
+  inmobiliaria_id: string;
+  project_id: string;
+  event?: ProjectChange['changeType'];
+  error: unknown;
+  errorClass?: string; // Permite indicar la clase cuando el error original no está disponible
+  attempts?: number;
+  payload?: Record<string, any> | null;
+}
+
+/**
+ * Almacenamiento de proyectos fallidos (dead-letter)
+ * Hay como máximo una entrada por proyecto y tenant
+ */
+export interface DeadLetterStore {
+  upsert(entry: FailedProject): Promise<void>;
+  get(tenantId: string, projectId: string): Promise<FailedProject | null>;
+  list(filter: FailedProjectFilter): Promise<FailedProject[]>;
+  remove(tenantId: string, projectIds: string[]): Promise<void>;
+}
+
+/**
+ * Dead-letter respaldado por la tabla vector_sync_dead_letters de Supabase
+ */
+export class SupabaseDeadLetterStore implements DeadLetterStore {
+  async upsert(entry: FailedProject): Promise<void> {
+    const { error } = await supabaseService.getClient()
+      .from('vector_sync_dead_letters')
+      .upsert(entry, { onConflict: 'inmobiliaria_id,project_id' });
+
+    if (error) {
+      logger.error({ error, projectId: entry.project_id }, 'Error al registrar proyecto fallido');
+      throw error;
+    }
+  }
+
+  async get(tenantId: string, projectId: string): Promise<FailedProject | null> {
+    const { data, error } = await supabaseService.getClient()
+      .from('vector_sync_dead_letters')
+      .select('*')
+      .eq('inmobiliaria_id', tenantId)
+      .eq('project_id', projectId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error({ error, tenantId, projectId }, 'Error al obtener proyecto fallido');
+      throw error;
+    }
+
+    return data;
+  }
+
+  async list(filter: FailedProjectFilter): Promise<FailedProject[]> {
+    let query = supabaseService.getClient()
+      .from('vector_sync_dead_letters')
+      .select('*')
+      .order('last_attempt', { ascending: false });
+
+    if (filter.tenantId) {
+      query = query.eq('inmobiliaria_id', filter.tenantId);
+    }
+    if (filter.projectIds && filter.projectIds.length > 0) {
+      query = query.in('project_id', filter.projectIds);
+    }
+    if (filter.limit) {
+      query = query.limit(filter.limit);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error({ error, filter }, 'Error al listar proyectos fallidos');
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async remove(tenantId: string, projectIds: string[]): Promise<void> {
+    const { error } = await supabaseService.getClient()
+      .from('vector_sync_dead_letters')
+      .delete()
+      .eq('inmobiliaria_id', tenantId)
+      .in('project_id', projectIds);
+
+    if (error) {
+      logger.error({ error, tenantId }, 'Error al eliminar proyectos fallidos');
+      throw error;
+    }
+  }
+}
+
+/**
+ * Dead-letter en memoria, utilizado en modo demo y para desarrollo local
+ */
+export class MemoryDeadLetterStore implements DeadLetterStore {
+  private entries: Map<string, FailedProject> = new Map();
+
+  async upsert(entry: FailedProject): Promise<void> {
+    this.entries.set(this.key(entry.inmobiliaria_id, entry.project_id), { ...entry });
+  }
+
+  async get(tenantId: string, projectId: string): Promise<FailedProject | null> {
+    const entry = this.entries.get(this.key(tenantId, projectId));
+    return entry ? { ...entry } : null;
+  }
+
+  async list(filter: FailedProjectFilter): Promise<FailedProject[]> {
+    const entries = [...this.entries.values()]
+      .filter(entry => !filter.tenantId || entry.inmobiliaria_id === filter.tenantId)
+      .filter(entry => !filter.projectIds?.length || filter.projectIds.includes(entry.project_id))
+      .sort((a, b) => b.last_attempt.localeCompare(a.last_attempt));
+
+    return (filter.limit ? entries.slice(0, filter.limit) : entries).map(entry => ({ ...entry }));
+  }
+
+  async remove(tenantId: string, projectIds: string[]): Promise<void> {
+    projectIds.forEach(projectId => this.entries.delete(this.key(tenantId, projectId)));
+  }
+
+  private key(tenantId: string, projectId: string): string {
+    return `${tenantId}:${projectId}`;
+  }
+}
+
+export class DeadLetterService {
+  constructor(private store: DeadLetterStore) {}
+
+  /**
+   * Registra (o actualiza) un proyecto fallido con la clase de error y el payload
+   */
+  async record(input: RecordFailureInput): Promise<void> {
+    const now = new Date().toISOString();
+
+    try {
+      const existing = await this.store.get(input.inmobiliaria_id, input.project_id);
+      await this.store.upsert({
+        inmobiliaria_id: input.inmobiliaria_id,
+        project_id: input.project_id,
+        event: input.event ?? existing?.event ?? 'UPDATE',
+        error_class: input.errorClass
+          ?? (input.error instanceof Error ? input.error.constructor.name : 'UnknownError'),
+        error_message: input.error instanceof Error ? input.error.message : String(input.error),
+        attempts: input.attempts ?? (existing?.attempts ?? 0) + 1,
+        first_failed_at: existing?.first_failed_at ?? now,
+        last_attempt: now,
+        payload: input.payload ?? existing?.payload ?? null
+      });
+
+      logger.warn({
+        tenantId: input.inmobiliaria_id,
+        projectId: input.project_id
+      }, 'Proyecto registrado en dead-letter');
+    } catch (error) {
+      // No interrumpir el flujo principal si no se puede registrar el fallo
+      logger.error({ error, projectId: input.project_id }, 'No se pudo registrar el proyecto fallido');
+    }
+  }
+
+  /**
+   * Lista los proyectos fallidos, opcionalmente filtrados por tenant o proyecto
+   */
+  async list(filter: FailedProjectFilter = {}): Promise<FailedProject[]> {
+    return this.store.list(filter);
+  }
+
+  /**
+   * Elimina las entradas de proyectos que ya se procesaron correctamente
+   */
+  async resolve(tenantId: string, projectIds: string[]): Promise<void> {
+    if (projectIds.length === 0) {
+      return;
+    }
+
+    try {
+      await this.store.remove(tenantId, projectIds);
+    } catch (error) {
+      logger.error({ error, tenantId }, 'No se pudieron limpiar los proyectos fallidos');
+    }
+  }
+}
+
+// Exportar una instancia única del servicio
+export const deadLetterService = new DeadLetterService(
+  config.queue.store === 'memory' ? new MemoryDeadLetterStore() : new SupabaseDeadLetterStore()
+);
@@ -0,0 +1,308 @@
+import { config, logger } from '../config/config.js';
+import { supabaseService } from './supabase.js';
+import { openaiService } from './openai.js';
+import { monitorService } from './monitor.js';
+import { jobQueueService } from './queue.js';
+import { deadLetterService } from './dead-letter.js';
+import { budgetService } from './budget.js';
+import { inspectEmbedding, vectorAuditService } from './audit.js';
+import { computeContentHash, contentTemplateService, renderProjectContent } from './content-template.js';
+import { Project } from '../types/project.js';
+import { VectorData } from '../types/vector.js';
+import { BudgetStatus } from '../types/budget.js';
+import { AuditIssueType } from '../types/audit.js';
+import {
+  DiagnosticCheck,
+  ProjectDiagnosticReport,
+  ProjectRepairReport,
+  TenantDiagnosticReport
+} from '../types/diagnostic.js';
+
+// Verificar si estamos en modo demo
+const isDemoMode = process.env.DEMO_MODE === 'true';
+
+// Acción sugerida para cada problema de la auditoría
+const AUDIT_ACTIONS: Record<AuditIssueType, string> = {
+  MISSING_VECTOR: 'Ejecutar audit-tenant con repair: true para generar los vectores faltantes',
+  ORPHAN_VECTOR: 'Ejecutar audit-tenant con repair: true para eliminar los vectores huérfanos',
+  STALE_VECTOR: 'Ejecutar audit-tenant con repair: true y revisar la fuente de cambios (webhook o Realtime)',
+  WRONG_DIMENSIONS: 'Revisar EMBEDDING_DIMENSIONS y ejecutar audit-tenant con repair: true',
+  WRONG_MODEL: 'Ejecutar audit-tenant con repair: true o una migración con migrate-embeddings',
+  CONTENT_MISMATCH: 'Ejecutar audit-tenant con repair: true para aplicar la plantilla actual',
+};
+
+function check(
+  name: string,
+  status: DiagnosticCheck['status'],
+  detail: string,
+  suggestedAction?: string
+): DiagnosticCheck {
+  return suggestedAction ? { name, status, detail, suggestedAction } : { name, status, detail };
+}
+
+function summarize(checks: DiagnosticCheck[]): { healthy: boolean; suggestedActions: string[] } {
+  return {
+    healthy: !checks.some(entry => entry.status === 'FAIL'),
+    suggestedActions: [...new Set(checks
+      .filter(entry => entry.status === 'FAIL' || entry.status === 'WARN')
+      .map(entry => entry.suggestedAction)
+      .filter((action): action is string => !!action))]
+  };
+}
+
+function budgetCheck(status: BudgetStatus): DiagnosticCheck {
+  if (status.state === 'EXCEEDED') {
+    const exceeded = status.limits.filter(limit => limit.used >= limit.limit);
+    return check('budget', 'FAIL',
+      `Presupuesto excedido (${exceeded.map(limit => `${limit.period}/${limit.metric}`).join(', ')}); no se generan embeddings`,
+      'Ampliar el presupuesto con manage-budget o esperar al siguiente periodo');
+  }
+  if (status.state === 'WARNING') {
+    return check('budget', 'WARN', 'Consumo cerca del límite del presupuesto',
+      'Revisar el consumo con get-cost-report y ajustar el presupuesto con manage-budget');
+  }
+  return check('budget', 'PASS', status.budget ? 'Consumo dentro del presupuesto' : 'Sin presupuesto configurado');
+}
+
+/**
+ * Diagnóstico y reparación de vectores de proyectos y tenants
+ * Cada verificación indica su resultado y, si falla, la acción sugerida
+ */
+export class DiagnosticService {
+  /**
+   * Verifica un proyecto: existencia, vector, dimensión, calidad del embedding, modelo,
+   * vigencia del contenido, dead-letter, trabajos pendientes y presupuesto del tenant
+   */
+  async diagnoseProject(tenantId: string, projectId: string): Promise<ProjectDiagnosticReport> {
+    this.assertAvailable();
+    logger.info({ tenantId, projectId }, 'Diagnosticando proyecto');
+
+    const [tenantExists, projects, vector, failed, pendingJob, budget] = await Promise.all([
+      supabaseService.checkInmobiliariaExists(tenantId),
+      supabaseService.getProjectsByIds([projectId], tenantId),
+      supabaseService.getVector(tenantId, projectId),
+      deadLetterService.list({ tenantId, projectIds: [projectId] }),
+      jobQueueService.getPendingJob(tenantId, projectId),
+      budgetService.getStatus(tenantId)
+    ]);
+    // Los proyectos y vectores de otros tenants se reportan como inexistentes
+    const project = projects[0] ?? null;
+
+    const checks: DiagnosticCheck[] = [
+      tenantExists
+        ? check('tenant', 'PASS', 'La inmobiliaria existe')
+        : check('tenant', 'FAIL', 'La inmobiliaria no existe', 'Verificar el tenant_id'),
+      project
+        ? check('project', 'PASS', 'El proyecto existe')
+        : check('project', 'FAIL', 'El proyecto no existe en la tabla proyectos'),
+      this.vectorCheck(project, vector),
+      ...(await this.embeddingChecks(tenantId, project, vector))
+    ];
+
+    if (failed.length > 0) {
+      checks.push(check('dead_letter', 'FAIL',
+        `Agotó sus reintentos (${failed[0].error_class}: ${failed[0].error_message})`,
+        'Ejecutar repair-project o retry-failed-projects'));
+    } else {
+      checks.push(check('dead_letter', 'PASS', 'No está en dead-letter'));
+    }
+
+    if (pendingJob?.parked) {
+      checks.push(check('pending_job', 'WARN', `Trabajo ${pendingJob.event} pospuesto por presupuesto hasta ${pendingJob.available_at}`,
+        'Ampliar el presupuesto con manage-budget para liberar los trabajos pospuestos'));
+    } else if (pendingJob) {
+      checks.push(check('pending_job', 'PASS', `Trabajo ${pendingJob.event} pendiente desde ${pendingJob.created_at}`));
+    } else {
+      checks.push(check('pending_job', 'PASS', 'Sin trabajos pendientes'));
+    }
+
+    checks.push(budgetCheck(budget));
+
+    const report: ProjectDiagnosticReport = {
+      inmobiliaria_id: tenantId,
+      project_id: projectId,
+      diagnosedAt: new Date().toISOString(),
+      ...summarize(checks),
+      checks
+    };
+
+    logger.info({ tenantId, projectId, healthy: report.healthy }, 'Diagnóstico de proyecto completado');
+    return report;
+  }
+
+  /**
+   * Verifica un tenant: existencia, estado de sincronización, consistencia de sus vectores
+   * (auditoría sin reparación), proyectos en dead-letter, trabajos pospuestos y presupuesto
+   */
+  async diagnoseTenant(tenantId: string): Promise<TenantDiagnosticReport> {
+    this.assertAvailable();
+    logger.info({ tenantId }, 'Diagnosticando tenant');
+
+    const [tenantExists, audit, failed, parked, budget] = await Promise.all([
+      supabaseService.checkInmobiliariaExists(tenantId),
+      vectorAuditService.auditTenant(tenantId, { issueLimit: 0 }),
+      deadLetterService.list({ tenantId }),
+      jobQueueService.countParkedJobs(tenantId),
+      budgetService.getStatus(tenantId)
+    ]);
+
+    const checks: DiagnosticCheck[] = [
+      tenantExists
+        ? check('tenant', 'PASS', 'La inmobiliaria existe')
+        : check('tenant', 'FAIL', 'La inmobiliaria no existe', 'Verificar el tenant_id')
+    ];
+
+    const status = monitorService.getTenantStatus(tenantId);
+    if (!status) {
+      checks.push(check('sync_status', 'WARN', 'Sin sincronizaciones registradas', 'Ejecutar sync-tenant'));
+    } else if (status.status === 'ERROR') {
+      checks.push(check('sync_status', 'FAIL', `Última sincronización con error: ${status.error ?? 'desconocido'}`,
+        'Revisar los logs y ejecutar sync-tenant'));
+    } else {
+      checks.push(check('sync_status', 'PASS', `Estado ${status.status}, última sincronización ${status.lastSync}`));
+    }
+
+    checks.push(check('vectors', 'PASS',
+      `${audit.totals.vectors} vectores para ${audit.totals.projects} proyectos (${audit.totals.healthy} sin problemas)`));
+    for (const [type, count] of Object.entries(audit.counts) as [AuditIssueType, number][]) {
+      checks.push(count > 0
+        ? check(`audit:${type}`, 'FAIL', `${count} proyectos afectados`, AUDIT_ACTIONS[type])
+        : check(`audit:${type}`, 'PASS', 'Sin problemas'));
+    }
+
+    checks.push(failed.length > 0
+      ? check('dead_letter', 'FAIL', `${failed.length} proyectos agotaron sus reintentos`,
+        'Revisar list-failed-projects y ejecutar retry-failed-projects')
+      : check('dead_letter', 'PASS', 'Sin proyectos en dead-letter'));
+
+    checks.push(parked > 0
+      ? check('parked_jobs', 'WARN', `${parked} trabajos pospuestos por presupuesto`,
+        'Ampliar el presupuesto con manage-budget para liberar los trabajos pospuestos')
+      : check('parked_jobs', 'PASS', 'Sin trabajos pospuestos'));
+
+    checks.push(budgetCheck(budget));
+
+    const report: TenantDiagnosticReport = {
+      inmobiliaria_id: tenantId,
+      diagnosedAt: new Date().toISOString(),
+      ...summarize(checks),
+      checks
+    };
+
+    logger.info({ tenantId, healthy: report.healthy }, 'Diagnóstico de tenant completado');
+    return report;
+  }
+
+  /**
+   * Repara el vector de un proyecto con el pipeline normal de sincronización:
+   * regenera el embedding (forzado) si el proyecto existe o elimina el vector si ya no existe
+   * Sin force, los proyectos sanos no se modifican
+   */
+  async repairProject(tenantId: string, projectId: string, force = false): Promise<ProjectRepairReport> {
+    const before = await this.diagnoseProject(tenantId, projectId);
+    const exists = before.checks.find(entry => entry.name === 'project')?.status === 'PASS';
+    const orphan = !exists && !!(await supabaseService.getVector(tenantId, projectId));
+    const startTime = Date.now();
+
+    const base = { inmobiliaria_id: tenantId, project_id: projectId, before };
+
+    if (!exists && !orphan) {
+      return { ...base, action: 'NONE', success: false, error: 'Proyecto no encontrado', durationMs: 0 };
+    }
+    if (exists && before.healthy && !force) {
+      return { ...base, action: 'NONE', success: true, durationMs: 0 };
+    }
+
+    const action = exists ? 'REGENERATE' : 'DELETE_VECTOR';
+    logger.info({ tenantId, projectId, action }, 'Reparando vector de proyecto');
+
+    try {
+      const result = await monitorService.processProject(tenantId, projectId, exists ? 'UPDATE' : 'DELETE', undefined, true);
+      const after = await this.diagnoseProject(tenantId, projectId);
+      const success = result === (exists ? 'PROCESSED' : 'DELETED');
+
+      logger.info({ tenantId, projectId, action, result }, 'Reparación de vector completada');
+      return {
+        ...base,
+        action,
+        success,
+        result,
+        error: success ? undefined : `Resultado inesperado: ${result}`,
+        durationMs: Date.now() - startTime,
+        after
+      };
+    } catch (error) {
+      logger.error({ error, tenantId, projectId }, 'Error en reparación de vector');
+      return {
+        ...base,
+        action,
+        success: false,
+        error: error instanceof Error ? error.message : 'Error desconocido',
+        durationMs: Date.now() - startTime
+      };
+    }
+  }
+
+  private vectorCheck(project: Project | null, vector: VectorData | null): DiagnosticCheck {
+    if (!vector) {
+      return project
+        ? check('vector', 'FAIL', 'El proyecto no tiene vector', 'Ejecutar repair-project para generar el vector')
+        : check('vector', 'PASS', 'Sin vector (el proyecto no existe)');
+    }
+    if (!project) {
+      return check('vector', 'FAIL', 'Vector huérfano: el proyecto ya no existe',
+        'Ejecutar repair-project para eliminar el vector');
+    }
+    return check('vector', 'PASS', `Vector actualizado el ${vector.updated_at ?? vector.metadata?.lastUpdate}`);
+  }
+
+  private async embeddingChecks(
+    tenantId: string,
+    project: Project | null,
+    vector: VectorData | null
+  ): Promise<DiagnosticCheck[]> {
+    const names = ['dimensions', 'embedding', 'model', 'content'];
+    if (!project || !vector) {
+      return names.map(name => check(name, 'SKIP', 'Requiere el proyecto y su vector'));
+    }
+
+    const repair = 'Ejecutar repair-project para regenerar el embedding';
+    const checks: DiagnosticCheck[] = [];
+    const expectedDimensions = config.embedding.dimensions;
+    const dimensions = Array.isArray(vector.embedding) ? vector.embedding.length : 0;
+    checks.push(dimensions === expectedDimensions
+      ? check('dimensions', 'PASS', `${dimensions} dimensiones`)
+      : check('dimensions', 'FAIL', `${dimensions} dimensiones, se esperaban ${expectedDimensions}`, repair));
+
+    const reasons = inspectEmbedding(vector.embedding, vector.metadata);
+    checks.push(reasons.length > 0
+      ? check('embedding', 'FAIL', `Embedding degenerado (${reasons.join(', ')})`, repair)
+      : check('embedding', 'PASS', 'Valores finitos y norma válida'));
+
+    const model = vector.metadata?.model;
+    const expectedModel = openaiService.getModel(tenantId);
+    checks.push(model === expectedModel
+      ? check('model', 'PASS', `Generado con ${model}`)
+      : check('model', 'FAIL', `Generado con ${model ?? 'modelo desconocido'}, el tenant usa ${expectedModel}`, repair));
+
+    const { content } = renderProjectContent(project, await contentTemplateService.getTemplate(tenantId));
+    if (!vector.metadata?.contentHash) {
+      checks.push(check('content', 'WARN', 'El vector no tiene huella de contenido', repair));
+    } else if (!model || vector.metadata.contentHash !== computeContentHash(content, model)) {
+      checks.push(check('content', 'FAIL', 'El contenido del proyecto cambió después de generar el vector', repair));
+    } else {
+      checks.push(check('content', 'PASS', 'El vector corresponde al contenido actual del proyecto'));
+    }
+
+    return checks;
+  }
+
+  private assertAvailable(): void {
+    if (isDemoMode) {
+      throw new Error('Los diagnósticos no están disponibles en modo demo');
+    }
+  }
+}
+
+// Exportar una instancia única del servicio
+export const diagnosticService = new DiagnosticService();
@@ -0,0 +1,239 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { config } from '../config/config.js';
+import { countTokens } from './tokenizer.js';
+import { EmbeddingBatchResult, EmbeddingProviderName, EmbeddingResult } from '../types/vector.js';
+
+// Dimensiones nativas de los modelos conocidos y si aceptan el parámetro `dimensions`
+const KNOWN_MODELS: Record<string, { dimensions: number; configurable: boolean }> = {
+  'text-embedding-ada-002': { dimensions: 1536, configurable: false },
+  'text-embedding-3-small': { dimensions: 1536, configurable: true },
+  'text-embedding-3-large': { dimensions: 3072, configurable: true },
+};
+
+/**
+ * El embedding no tiene la dimensión de la columna de destino
+ * No se reintenta: el mismo modelo siempre producirá la misma dimensión
+ */
+export class EmbeddingDimensionError extends Error {
+  constructor(readonly model: string, readonly expected: number, readonly actual: number) {
+    super(`El modelo ${model} produce ${actual} dimensiones pero proyecto_vector.embedding requiere ${expected}`);
+    this.name = 'EmbeddingDimensionError';
+  }
+}
+
+/**
+ * Proveedor de embeddings
+ * `embed` retorna un resultado por entrada, en el mismo orden, y los tokens consumidos. Los errores del request
+ * completo (red, 429, autenticación) se lanzan para que el llamador aplique reintentos
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string; // Modelo registrado en la metadata de los vectores
+  readonly dimensions: number; // Dimensión que deben tener los embeddings generados
+  embed(inputs: string[]): Promise<EmbeddingBatchResult>;
+}
+
+/**
+ * Proveedor basado en el SDK de OpenAI
+ * Sirve también para Azure OpenAI y para endpoints compatibles cambiando el cliente
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    readonly name: EmbeddingProviderName,
+    private client: OpenAI,
+    readonly model: string,
+    readonly dimensions: number,
+    private requestModel: string = model, // En Azure se envía el nombre del deployment
+    private requestDimensions?: number // Solo para modelos que aceptan el parámetro dimensions
+  ) {}
+
+  async embed(inputs: string[]): Promise<EmbeddingBatchResult> {
+    const startTime = Date.now();
+    const response = await this.client.embeddings.create({
+      model: this.requestModel,
+      input: inputs,
+      ...(this.requestDimensions ? { dimensions: this.requestDimensions } : {}),
+    });
+    const processingTime = Date.now() - startTime;
+
+    const results: EmbeddingResult[] = inputs.map(input => ({
+      success: false,
+      error: 'La respuesta no incluye el embedding de esta entrada',
+      metadata: { model: this.model, dimensions: 0, tokenCount: countTokens(input), processingTime }
+    }));
+
+    // La API puede devolver los resultados en otro orden: usar el índice de cada item
+    for (const item of response.data) {
+      results[item.index] = {
+        success: true,
+        vector: item.embedding,
+        metadata: {
+          model: this.model,
+          dimensions: item.embedding.length,
+          tokenCount: results[item.index].metadata.tokenCount,
+          processingTime
+        }
+      };
+    }
+
+    // Los endpoints compatibles no siempre informan el consumo
+    const totalTokens = response.usage?.total_tokens ??
+      results.reduce((total, result) => total + result.metadata.tokenCount, 0);
+
+    return { results, totalTokens };
+  }
+}
+
+/**
+ * Proveedor determinista sin llamadas externas, para pruebas y modo demo
+ * Usa feature hashing de palabras y bigramas: textos con vocabulario común
+ * producen vectores similares, y el mismo texto siempre el mismo vector
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hash';
+  readonly model = 'hash-embedding-v1';
+
+  constructor(readonly dimensions: number = config.embedding.dimensions) {}
+
+  async embed(inputs: string[]): Promise<EmbeddingBatchResult> {
+    const results: EmbeddingResult[] = inputs.map(input => {
+      const startTime = Date.now();
+      const vector = this.hashVector(input);
+      return {
+        success: true,
+        vector,
+        metadata: {
+          model: this.model,
+          dimensions: vector.length,
+          tokenCount: countTokens(input),
+          processingTime: Date.now() - startTime
+        }
+      };
+    });
+
+    return { results, totalTokens: results.reduce((total, result) => total + result.metadata.tokenCount, 0) };
+  }
+
+  private hashVector(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const words = text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) || [];
+
+    const features = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+    for (const feature of features) {
+      const hash = this.fnv1a(feature);
+      vector[hash % this.dimensions] += (hash & 0x80000000) ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((acc, value) => acc + value * value, 0));
+    if (norm === 0) {
+      // Texto vacío: vector unitario fijo para evitar un vector nulo
+      vector[0] = 1;
+      return vector;
+    }
+    return vector.map(value => value / norm);
+  }
+
+  private fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+/**
+ * Determina el valor del parámetro `dimensions` para un modelo
+ * Falla si un modelo conocido no puede producir la dimensión de la columna;
+ * los modelos desconocidos se validan al recibir cada respuesta
+ */
+function resolveRequestDimensions(model: string, target: number): number | undefined {
+  const known = KNOWN_MODELS[model];
+  if (!known) {
+    return undefined;
+  }
+
+  if (known.configurable ? target > known.dimensions : target !== known.dimensions) {
+    throw new EmbeddingDimensionError(model, target, known.dimensions);
+  }
+
+  return known.configurable ? target : undefined;
+}
+
+// Sin reintentos del SDK: OpenAIService reintenta y cada intento pasa por el limitador de tasa del tenant
+const CLIENT_MAX_RETRIES = 0;
+
+/**
+ * Crea el proveedor indicado validando su configuración
+ * El modelo y la dimensión pueden sobrescribirse (p.ej. para una migración de modelo)
+ */
+export function createEmbeddingProvider(
+  name: EmbeddingProviderName,
+  overrides: { model?: string; dimensions?: number } = {}
+): EmbeddingProvider {
+  const dimensions = overrides.dimensions ?? config.embedding.dimensions;
+
+  switch (name) {
+    case 'openai': {
+      if (!config.openai.apiKey) {
+        throw new Error('El proveedor openai requiere OPENAI_API_KEY');
+      }
+      const model = overrides.model ?? config.openai.model;
+      return new OpenAIEmbeddingProvider(
+        'openai',
+        new OpenAI({ apiKey: config.openai.apiKey, maxRetries: CLIENT_MAX_RETRIES }),
+        model,
+        dimensions,
+        model,
+        resolveRequestDimensions(model, dimensions)
+      );
+    }
+
+    case 'azure': {
+      const azure = config.embedding.azure;
+      if (!azure.endpoint || !azure.apiKey || !azure.deployment) {
+        throw new Error('El proveedor azure requiere AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY y AZURE_OPENAI_DEPLOYMENT');
+      }
+      // En Azure el modelo lo determina el deployment; no se puede sobrescribir
+      return new OpenAIEmbeddingProvider(
+        'azure',
+        new AzureOpenAI({
+          endpoint: azure.endpoint,
+          apiKey: azure.apiKey,
+          apiVersion: azure.apiVersion,
+          deployment: azure.deployment,
+          maxRetries: CLIENT_MAX_RETRIES,
+        }),
+        azure.model,
+        dimensions,
+        azure.deployment,
+        resolveRequestDimensions(azure.model, dimensions)
+      );
+    }
+
+    case 'openai-compatible': {
+      const compatible = config.embedding.compatible;
+      if (!compatible.baseUrl) {
+        throw new Error('El proveedor openai-compatible requiere EMBEDDING_BASE_URL');
+      }
+      const model = overrides.model ?? compatible.model;
+      return new OpenAIEmbeddingProvider(
+        'openai-compatible',
+        // Los servidores locales no suelen exigir API key, pero el SDK requiere un valor
+        new OpenAI({ baseURL: compatible.baseUrl, apiKey: compatible.apiKey || 'not-needed', maxRetries: CLIENT_MAX_RETRIES }),
+        model,
+        dimensions,
+        model,
+        resolveRequestDimensions(model, dimensions)
+      );
+    }
+
+    case 'hash':
+      return new HashEmbeddingProvider(dimensions);
+  }
+}
@@ -0,0 +1,278 @@
+import { randomUUID } from 'crypto';
+import { logger } from '../config/config.js';
+import { supabaseService } from './supabase.js';
+import { EnqueueJobInput, SyncJob } from '../types/job.js';
+
+/**
+ * Almacenamiento persistente de trabajos de sincronización
+ */
+export interface JobStore {
+  enqueue(input: EnqueueJobInput, maxAttempts: number): Promise<SyncJob>;
+  claim(limit: number, visibilityTimeoutMs: number): Promise<SyncJob[]>;
+  update(id: string, changes: Partial<SyncJob>): Promise<void>;
+  get(id: string): Promise<SyncJob | null>;
+  // Trabajo pendiente (aún no reclamado) para un proyecto, usado para agrupar ráfagas
+  findPending(tenantId: string, projectId: string): Promise<SyncJob | null>;
+  // Actualiza el trabajo solo si sigue pendiente; retorna false si ya fue reclamado
+  updatePending(id: string, changes: Partial<SyncJob>): Promise<boolean>;
+  // Trabajos pospuestos por presupuesto de un tenant que aún no están disponibles
+  countParked(tenantId: string): Promise<number>;
+  // Hace disponibles de inmediato los trabajos pospuestos de un tenant; retorna cuántos
+  releaseParked(tenantId: string): Promise<number>;
+}
+
+function buildJob(input: EnqueueJobInput, maxAttempts: number): SyncJob {
+  const now = Date.now();
+  return {
+    id: randomUUID(),
+    inmobiliaria_id: input.inmobiliaria_id,
+    project_id: input.project_id,
+    event: input.event,
+    status: 'PENDING',
+    priority: input.priority ?? 0,
+    attempts: 0,
+    max_attempts: maxAttempts,
+    available_at: new Date(now + (input.delayMs ?? 0)).toISOString(),
+    locked_until: null,
+    result: null,
+    last_error: null,
+    payload: input.payload ?? null,
+    parked: false,
+    force: input.force ?? false,
+    created_at: new Date(now).toISOString(),
+    updated_at: new Date(now).toISOString(),
+  };
+}
+
+function jobKey(job: Pick<SyncJob, 'inmobiliaria_id' | 'project_id'>): string {
+  return `${job.inmobiliaria_id}:${job.project_id}`;
+}
+
+/**
+ * Cola respaldada por la tabla vector_sync_jobs de Supabase
+ * La reclamación de trabajos se hace mediante rpc_claim_sync_jobs (FOR UPDATE SKIP LOCKED)
+ * para que varias instancias puedan drenar la cola sin procesar el mismo trabajo
+ * ni dos trabajos del mismo proyecto a la vez
+ */
+export class SupabaseJobStore implements JobStore {
+  async enqueue(input: EnqueueJobInput, maxAttempts: number): Promise<SyncJob> {
+    const job = buildJob(input, maxAttempts);
+    const { error } = await supabaseService.getClient()
+      .from('vector_sync_jobs')
+      .insert(job);
+
+    if (error) {
+      logger.error({ error, job }, 'Error al encolar trabajo');
+      throw error;
+    }
+
+    return job;
+  }
+
+  async claim(limit: number, visibilityTimeoutMs: number): Promise<SyncJob[]> {
+    const { data, error } = await supabaseService.getClient().rpc('rpc_claim_sync_jobs', {
+      p_limit: limit,
+      p_visibility_timeout_ms: visibilityTimeoutMs,
+    });
+
+    if (error) {
+      logger.error({ error }, 'Error al reclamar trabajos de la cola');
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async update(id: string, changes: Partial<SyncJob>): Promise<void> {
+    const { error } = await supabaseService.getClient()
+      .from('vector_sync_jobs')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      logger.error({ error, jobId: id }, 'Error al actualizar trabajo');
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<SyncJob | null> {
+    const { data, error } = await supabaseService.getClient()
+      .from('vector_sync_jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error({ error, jobId: id }, 'Error al obtener trabajo');
+      throw error;
+    }
+
+    return data;
+  }
+
+  async findPending(tenantId: string, projectId: string): Promise<SyncJob | null> {
+    const { data, error } = await supabaseService.getClient()
+      .from('vector_sync_jobs')
+      .select('*')
+      .eq('inmobiliaria_id', tenantId)
+      .eq('project_id', projectId)
+      .eq('status', 'PENDING')
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      logger.error({ error, tenantId, projectId }, 'Error al buscar trabajo pendiente');
+      throw error;
+    }
+
+    return data;
+  }
+
+  async updatePending(id: string, changes: Partial<SyncJob>): Promise<boolean> {
+    const { data, error } = await supabaseService.getClient()
+      .from('vector_sync_jobs')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'PENDING')
+      .select('id');
+
+    if (error) {
+      logger.error({ error, jobId: id }, 'Error al actualizar trabajo pendiente');
+      throw error;
+    }
+
+    return !!(data && data.length > 0);
+  }
+
+  async countParked(tenantId: string): Promise<number> {
+    const { count, error } = await supabaseService.getClient()
+      .from('vector_sync_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('inmobiliaria_id', tenantId)
+      .eq('status', 'PENDING')
+      .eq('parked', true)
+      .gt('available_at', new Date().toISOString());
+
+    if (error) {
+      logger.error({ error, tenantId }, 'Error al contar trabajos pospuestos');
+      throw error;
+    }
+
+    return count ?? 0;
+  }
+
+  async releaseParked(tenantId: string): Promise<number> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseService.getClient()
+      .from('vector_sync_jobs')
+      .update({ available_at: now, updated_at: now })
+      .eq('inmobiliaria_id', tenantId)
+      .eq('status', 'PENDING')
+      .eq('parked', true)
+      .select('id');
+
+    if (error) {
+      logger.error({ error, tenantId }, 'Error al liberar trabajos pospuestos');
+      throw error;
+    }
+
+    return data?.length ?? 0;
+  }
+}
+
+/**
+ * Cola en memoria, utilizada en modo demo y para desarrollo local
+ * Los trabajos se pierden al reiniciar el proceso
+ */
+export class MemoryJobStore implements JobStore {
+  private jobs: Map<string, SyncJob> = new Map();
+
+  async enqueue(input: EnqueueJobInput, maxAttempts: number): Promise<SyncJob> {
+    const job = buildJob(input, maxAttempts);
+    this.jobs.set(job.id, job);
+    return { ...job };
+  }
+
+  async claim(limit: number, visibilityTimeoutMs: number): Promise<SyncJob[]> {
+    const now = Date.now();
+    const isLocked = (job: SyncJob) =>
+      job.status === 'PROCESSING' && !!job.locked_until && new Date(job.locked_until).getTime() > now;
+
+    // Proyectos con un trabajo en curso: no se reclama otro trabajo del mismo proyecto
+    const busy = new Set([...this.jobs.values()].filter(isLocked).map(jobKey));
+
+    const candidates = [...this.jobs.values()]
+      .filter(job =>
+        (job.status === 'PENDING' && new Date(job.available_at).getTime() <= now) ||
+        (job.status === 'PROCESSING' && !isLocked(job))
+      )
+      .sort((a, b) => b.priority - a.priority || a.available_at.localeCompare(b.available_at));
+
+    const claimable: SyncJob[] = [];
+    for (const job of candidates) {
+      if (claimable.length >= limit) {
+        break;
+      }
+      if (!busy.has(jobKey(job))) {
+        busy.add(jobKey(job));
+        claimable.push(job);
+      }
+    }
+
+    return claimable.map(job => {
+      job.status = 'PROCESSING';
+      job.attempts += 1;
+      job.locked_until = new Date(now + visibilityTimeoutMs).toISOString();
+      job.updated_at = new Date(now).toISOString();
+      return { ...job };
+    });
+  }
+
+  async update(id: string, changes: Partial<SyncJob>): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      Object.assign(job, changes, { updated_at: new Date().toISOString() });
+    }
+  }
+
+  async get(id: string): Promise<SyncJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async findPending(tenantId: string, projectId: string): Promise<SyncJob | null> {
+    const job = [...this.jobs.values()].find(candidate =>
+      candidate.status === 'PENDING' &&
+      candidate.inmobiliaria_id === tenantId &&
+      candidate.project_id === projectId
+    );
+    return job ? { ...job } : null;
+  }
+
+  async updatePending(id: string, changes: Partial<SyncJob>): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'PENDING') {
+      return false;
+    }
+    Object.assign(job, changes, { updated_at: new Date().toISOString() });
+    return true;
+  }
+
+  async countParked(tenantId: string): Promise<number> {
+    const now = Date.now();
+    return [...this.jobs.values()]
+      .filter(job => this.isParked(job, tenantId) && new Date(job.available_at).getTime() > now)
+      .length;
+  }
+
+  async releaseParked(tenantId: string): Promise<number> {
+    const now = new Date().toISOString();
+    const parked = [...this.jobs.values()].filter(job => this.isParked(job, tenantId));
+    parked.forEach(job => Object.assign(job, { available_at: now, updated_at: now }));
+    return parked.length;
+  }
+
+  private isParked(job: SyncJob, tenantId: string): boolean {
+    return job.status === 'PENDING' && !!job.parked && job.inmobiliaria_id === tenantId;
+  }
+}
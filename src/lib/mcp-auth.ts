@@ -0,0 +1,68 @@
+import { IncomingHttpHeaders } from 'http';
+import { config } from '../config/config.js';
+import { safeEqual } from './webhook-auth.js';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Tenants a los que tiene acceso un cliente MCP
+ * El transporte stdio (proceso local) tiene acceso a todos
+ */
+export interface McpAccessScope {
+  name: string; // Nombre de la API key, para auditoría
+  tenants: '*' | string[];
+}
+
+export const FULL_ACCESS_SCOPE: McpAccessScope = { name: 'stdio', tenants: '*' };
+
+export interface McpAuthResult {
+  valid: boolean;
+  scope?: McpAccessScope;
+  reason?: string;
+}
+
+function getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Autentica una solicitud al transporte HTTP de MCP con una de las claves de MCP_API_KEYS
+ * La clave se acepta como token bearer o en la cabecera x-api-key
+ */
+export function authenticateMcpRequest(headers: IncomingHttpHeaders): McpAuthResult {
+  const authorization = getHeader(headers, 'authorization') || '';
+  const [scheme, token] = authorization.split(' ');
+  const key = scheme?.toLowerCase() === 'bearer' && token ? token : getHeader(headers, API_KEY_HEADER);
+  if (!key) {
+    return { valid: false, reason: 'API key ausente' };
+  }
+
+  const match = config.mcpHttp.apiKeys.find(apiKey => safeEqual(key, apiKey.key));
+  if (!match) {
+    return { valid: false, reason: 'API key inválida' };
+  }
+
+  return { valid: true, scope: { name: match.name, tenants: match.tenants } };
+}
+
+/**
+ * Verifica que el alcance permita una llamada y retorna el motivo del rechazo
+ * Con acceso limitado, la llamada debe indicar un tenant autorizado y no puede usar
+ * herramientas globales (que operan sobre todos los tenants o sobre el servicio)
+ */
+export function checkTenantAccess(scope: McpAccessScope, tenantId: string | undefined, global = false): string | undefined {
+  if (scope.tenants === '*') {
+    return undefined;
+  }
+  if (global) {
+    return `La API key ${scope.name} no tiene acceso a herramientas globales`;
+  }
+  if (!tenantId) {
+    return `tenant_id es requerido con la API key ${scope.name}`;
+  }
+  if (!scope.tenants.includes(tenantId)) {
+    return `La API key ${scope.name} no tiene acceso al tenant ${tenantId}`;
+  }
+  return undefined;
+}
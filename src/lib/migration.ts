@@ -0,0 +1,586 @@
+import { randomUUID } from 'crypto';
+import { config, logger, MAX_CONTENT_LENGTH } from '../config/config.js';
+import { supabaseService } from './supabase.js';
+import { openaiService } from './openai.js';
+import { rateLimiter } from './rate-limiter.js';
+import { jobQueueService } from './queue.js';
+import { computeContentHash, contentTemplateService, renderProjectContent } from './content-template.js';
+import { EmbeddingProvider } from './embedding-providers.js';
+import { estimateEmbeddingCost } from './pricing.js';
+import { budgetService } from './budget.js';
+import { countTokens } from './tokenizer.js';
+import { Project } from '../types/project.js';
+import { EmbeddingProviderName, EmbeddingProviderSpec } from '../types/vector.js';
+import { VectorMigration } from '../types/migration.js';
+
+// Verificar si estamos en modo demo
+const isDemoMode = process.env.DEMO_MODE === 'true';
+
+// Frecuencia con que se recargan las migraciones (para ver los cambios hechos por otras instancias)
+const MIGRATION_REFRESH_INTERVAL = 60000;
+
+export interface StartMigrationInput {
+  tenantId?: string;
+  provider: EmbeddingProviderName;
+  model?: string;
+}
+
+/**
+ * Migración de modelo de embeddings
+ * Re-genera los embeddings de un tenant (o de todos) con un nuevo proveedor/modelo en la
+ * tabla sombra proyecto_vector_shadow, sin afectar a proyecto_vector. El avance se guarda
+ * con un cursor para poder reanudar; cuando termina, rpc_cutover_vector_migration reemplaza
+ * los vectores en una sola transacción (respaldando los anteriores) y el nuevo modelo pasa
+ * a usarse para el tenant. rpc_rollback_vector_migration restaura el respaldo
+ */
+export class VectorMigrationService {
+  private migrations: Map<string, VectorMigration> = new Map();
+  private running: Set<string> = new Set();
+  private loops: Map<string, Promise<void>> = new Map(); // Ejecución en curso de cada migración
+  private refreshTimer?: NodeJS.Timeout;
+
+  constructor() {
+    // Tras el cambio, el modelo de la migración tiene prioridad sobre la configuración
+    openaiService.setProviderResolver(tenantId => this.resolveProvider(tenantId));
+  }
+
+  /**
+   * Carga las migraciones existentes; las que estaban en curso quedan pausadas
+   */
+  async initialize(): Promise<void> {
+    if (isDemoMode) {
+      return;
+    }
+
+    try {
+      await this.refresh();
+
+      for (const migration of this.migrations.values()) {
+        if (migration.status === 'RUNNING') {
+          migration.status = 'PAUSED';
+          migration.last_error = 'Interrumpida por reinicio del servicio';
+          await this.save(migration);
+        }
+      }
+
+      this.refreshTimer = setInterval(() => {
+        this.refresh().catch(error => logger.warn({ error }, 'Error recargando migraciones de modelo'));
+      }, MIGRATION_REFRESH_INTERVAL);
+      this.refreshTimer.unref();
+
+      logger.info({ migrations: this.migrations.size }, 'Migraciones de modelo cargadas');
+    } catch (error) {
+      logger.error({ error }, 'No se pudieron cargar las migraciones de modelo');
+    }
+  }
+
+  /**
+   * Inicia una migración y comienza a generar los embeddings en segundo plano
+   */
+  async start(input: StartMigrationInput): Promise<VectorMigration> {
+    this.assertAvailable();
+
+    if (config.chunking.enabled) {
+      throw new Error('La migración de modelo no admite el modo fragmentado (proyecto_vector_chunk)');
+    }
+
+    const scope = input.tenantId ?? null;
+    const overlapping = [...this.migrations.values()].find(migration =>
+      ['RUNNING', 'PAUSED', 'READY'].includes(migration.status) &&
+      (migration.inmobiliaria_id === null || scope === null || migration.inmobiliaria_id === scope)
+    );
+    if (overlapping) {
+      throw new Error(`Ya existe la migración ${overlapping.id} (${overlapping.status}) para este alcance`);
+    }
+
+    // Valida la configuración del proveedor y que el modelo produzca la dimensión de la columna
+    const provider = openaiService.getProviderFor({ provider: input.provider, model: input.model });
+    if (scope) {
+      const current = openaiService.getProvider(scope);
+      if (current.name === provider.name && current.model === provider.model) {
+        throw new Error(`El tenant ${scope} ya usa ${provider.name}/${provider.model}`);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const migration: VectorMigration = {
+      id: randomUUID(),
+      inmobiliaria_id: scope,
+      provider: provider.name,
+      model: provider.model,
+      dimensions: provider.dimensions,
+      status: 'RUNNING',
+      total_projects: await supabaseService.countProjects(scope),
+      processed_projects: 0,
+      failed_project_ids: [],
+      token_count: 0,
+      cost_estimate: 0,
+      cursor: null,
+      last_error: null,
+      started_at: now,
+      completed_at: null,
+      cutover_at: null,
+      rolled_back_at: null,
+      created_at: now,
+      updated_at: now
+    };
+
+    const { error } = await supabaseService.getClient()
+      .from('vector_model_migrations')
+      .insert(migration);
+    if (error) {
+      logger.error({ error, migration }, 'Error al registrar migración de modelo');
+      throw error;
+    }
+
+    this.migrations.set(migration.id, migration);
+    logger.info({
+      migrationId: migration.id,
+      tenantId: scope,
+      provider: migration.provider,
+      model: migration.model,
+      totalProjects: migration.total_projects
+    }, 'Migración de modelo iniciada');
+
+    this.runInBackground(migration.id);
+    return migration;
+  }
+
+  /**
+   * Lista las migraciones, opcionalmente las que afectan a un tenant
+   */
+  list(tenantId?: string): VectorMigration[] {
+    return [...this.migrations.values()]
+      .filter(migration => !tenantId || migration.inmobiliaria_id === null || migration.inmobiliaria_id === tenantId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  /**
+   * Obtiene una migración con su porcentaje de avance
+   */
+  get(id: string): (VectorMigration & { progress: number }) | undefined {
+    const migration = this.migrations.get(id);
+    if (!migration) {
+      return undefined;
+    }
+
+    const progress = migration.total_projects > 0
+      ? Math.min(migration.processed_projects / migration.total_projects, 1)
+      : (migration.status === 'RUNNING' ? 0 : 1);
+    return { ...migration, progress: Math.round(progress * 1000) / 10 };
+  }
+
+  /**
+   * Pausa una migración en curso (el lote actual termina normalmente)
+   */
+  async pause(id: string): Promise<VectorMigration> {
+    const migration = this.requireMigration(id, ['RUNNING']);
+    this.running.delete(id);
+    migration.status = 'PAUSED';
+    await this.save(migration);
+    logger.info({ migrationId: id }, 'Migración de modelo pausada');
+    return migration;
+  }
+
+  /**
+   * Reanuda una migración pausada desde su cursor, reintentando antes los proyectos fallidos
+   * También sirve para reintentar los fallidos de una migración ya completada
+   */
+  async resume(id: string): Promise<VectorMigration> {
+    this.assertAvailable();
+    this.requireMigration(id, ['PAUSED', 'READY']);
+    // Una pausa deja terminar el lote en curso: se espera para no ejecutar dos bucles a la vez
+    await this.waitForLoop(id);
+    const migration = this.requireMigration(id, ['PAUSED', 'READY']);
+    migration.status = 'RUNNING';
+    migration.last_error = null;
+    await this.save(migration);
+
+    logger.info({ migrationId: id, cursor: migration.cursor }, 'Migración de modelo reanudada');
+    this.runInBackground(id);
+    return migration;
+  }
+
+  /**
+   * Reemplaza los vectores por los de la tabla sombra y activa el nuevo modelo
+   * Antes se re-generan los proyectos modificados desde el inicio de la migración.
+   * Con proyectos fallidos solo se permite con force; esos proyectos se encolan tras el cambio
+   */
+  async cutover(id: string, force: boolean = false): Promise<VectorMigration> {
+    this.assertAvailable();
+    const migration = this.requireMigration(id, ['READY']);
+
+    if (migration.failed_project_ids.length > 0 && !force) {
+      throw new Error(
+        `La migración tiene ${migration.failed_project_ids.length} proyectos fallidos: reanúdela para reintentarlos o use force`
+      );
+    }
+
+    // Los cambios ocurridos durante la migración se generaron con el modelo anterior
+    const catchUpFrom = new Date();
+    const provider = openaiService.getProviderFor({ provider: migration.provider, model: migration.model });
+    let cursor: string | null = null;
+    for (;;) {
+      const page = await supabaseService.getProjectsPage({
+        tenantId: migration.inmobiliaria_id,
+        afterId: cursor,
+        updatedSince: new Date(migration.started_at),
+        limit: config.monitor.batchSize
+      });
+      if (page.length === 0) {
+        break;
+      }
+      await this.embedProjects(migration, page, provider, false);
+      cursor = page[page.length - 1].id;
+    }
+
+    const { error } = await supabaseService.getClient().rpc('rpc_cutover_vector_migration', {
+      p_migration_id: id,
+    });
+    if (error) {
+      logger.error({ error, migrationId: id }, 'Error en el cambio de modelo');
+      throw error;
+    }
+
+    migration.status = 'CUTOVER';
+    migration.cutover_at = new Date().toISOString();
+    await this.save(migration);
+
+    logger.info({
+      migrationId: id,
+      tenantId: migration.inmobiliaria_id,
+      provider: migration.provider,
+      model: migration.model
+    }, 'Cambio de modelo completado');
+
+    // Proyectos sin embedding nuevo y modificados durante el cambio: se regeneran con el nuevo modelo
+    await this.enqueueResync(migration, catchUpFrom, migration.failed_project_ids);
+    return migration;
+  }
+
+  /**
+   * Restaura los vectores respaldados en el cambio y vuelve al modelo anterior
+   * Solo se puede revertir el último cambio que afecta al tenant
+   */
+  async rollback(id: string): Promise<VectorMigration> {
+    this.assertAvailable();
+    const migration = this.requireMigration(id, ['CUTOVER']);
+
+    const newer = [...this.migrations.values()].find(other =>
+      other.id !== id &&
+      other.status === 'CUTOVER' &&
+      other.cutover_at! > migration.cutover_at! &&
+      (other.inmobiliaria_id === null || migration.inmobiliaria_id === null || other.inmobiliaria_id === migration.inmobiliaria_id)
+    );
+    if (newer) {
+      throw new Error(`Primero debe revertirse la migración posterior ${newer.id}`);
+    }
+
+    const { error } = await supabaseService.getClient().rpc('rpc_rollback_vector_migration', {
+      p_migration_id: id,
+    });
+    if (error) {
+      logger.error({ error, migrationId: id }, 'Error al revertir migración de modelo');
+      throw error;
+    }
+
+    migration.status = 'ROLLED_BACK';
+    migration.rolled_back_at = new Date().toISOString();
+    await this.save(migration);
+
+    logger.info({ migrationId: id, tenantId: migration.inmobiliaria_id }, 'Migración de modelo revertida');
+
+    // El respaldo no incluye los cambios posteriores al cambio de modelo
+    await this.enqueueResync(migration, new Date(migration.cutover_at!), []);
+    return migration;
+  }
+
+  /**
+   * Descarta una migración que aún no se aplicó y elimina sus embeddings de la tabla sombra
+   */
+  async cancel(id: string): Promise<VectorMigration> {
+    this.assertAvailable();
+    const migration = this.requireMigration(id, ['RUNNING', 'PAUSED', 'READY']);
+    this.running.delete(id);
+    // El lote en curso escribiría en la tabla sombra después de limpiarla
+    await this.waitForLoop(id);
+
+    const { error } = await supabaseService.getClient()
+      .from('proyecto_vector_shadow')
+      .delete()
+      .eq('migration_id', id);
+    if (error) {
+      logger.error({ error, migrationId: id }, 'Error al eliminar embeddings de la tabla sombra');
+      throw error;
+    }
+
+    migration.status = 'CANCELLED';
+    await this.save(migration);
+    logger.info({ migrationId: id }, 'Migración de modelo cancelada');
+    return migration;
+  }
+
+  private runInBackground(id: string): void {
+    const loop: Promise<void> = this.run(id)
+      .catch(error => logger.error({ error, migrationId: id }, 'Error ejecutando migración de modelo'))
+      .finally(() => {
+        if (this.loops.get(id) === loop) {
+          this.loops.delete(id);
+        }
+      });
+    this.loops.set(id, loop);
+  }
+
+  /**
+   * Espera a que termine la ejecución en curso de una migración, si la hay
+   */
+  private async waitForLoop(id: string): Promise<void> {
+    await this.loops.get(id);
+  }
+
+  private async run(id: string): Promise<void> {
+    if (this.running.has(id)) {
+      return;
+    }
+
+    const migration = this.migrations.get(id)!;
+    this.running.add(id);
+
+    try {
+      const provider = openaiService.getProviderFor({ provider: migration.provider, model: migration.model });
+
+      // Reintentar primero los proyectos que fallaron en ejecuciones anteriores
+      if (migration.failed_project_ids.length > 0) {
+        const retry = await supabaseService.getProjectsByIds(migration.failed_project_ids);
+        migration.failed_project_ids = [];
+        await this.embedProjects(migration, retry, provider, true);
+        await this.save(migration);
+      }
+
+      while (this.running.has(id)) {
+        const page = await supabaseService.getProjectsPage({
+          tenantId: migration.inmobiliaria_id,
+          afterId: migration.cursor,
+          limit: config.monitor.batchSize
+        });
+
+        if (page.length === 0) {
+          migration.status = 'READY';
+          migration.completed_at = new Date().toISOString();
+          await this.save(migration);
+          logger.info({
+            migrationId: id,
+            processed: migration.processed_projects,
+            failed: migration.failed_project_ids.length,
+            tokens: migration.token_count,
+            costEstimate: migration.cost_estimate
+          }, 'Migración de modelo lista para el cambio');
+          break;
+        }
+
+        await this.embedProjects(migration, page, provider, true);
+        migration.cursor = page[page.length - 1].id;
+        await this.save(migration);
+      }
+    } catch (error) {
+      // Se pausa para poder reanudarla desde el último cursor guardado
+      migration.status = 'PAUSED';
+      migration.last_error = error instanceof Error ? error.message : 'Error desconocido';
+      await this.save(migration).catch(saveError =>
+        logger.error({ error: saveError, migrationId: id }, 'Error guardando estado de migración')
+      );
+      throw error;
+    } finally {
+      this.running.delete(id);
+    }
+  }
+
+  /**
+   * Genera los embeddings de un conjunto de proyectos con el modelo de la migración
+   * y los guarda en la tabla sombra
+   */
+  private async embedProjects(
+    migration: VectorMigration,
+    projects: Project[],
+    provider: EmbeddingProvider,
+    countProgress: boolean
+  ): Promise<void> {
+    const byTenant = new Map<string, Project[]>();
+    for (const project of projects) {
+      byTenant.set(project.inmobiliaria_id, [...(byTenant.get(project.inmobiliaria_id) || []), project]);
+    }
+
+    for (const [tenantId, tenantProjects] of byTenant) {
+      const template = await contentTemplateService.getTemplate(tenantId);
+      const rendered = tenantProjects.map(project => renderProjectContent(project, template));
+      const tokens = rendered.reduce(
+        (total, item) => total + Math.min(countTokens(item.content), MAX_CONTENT_LENGTH),
+        0
+      );
+
+      // La migración se pausa si el tenant no tiene presupuesto disponible
+      await budgetService.assertWithinBudget(tenantId, provider.model, tokens);
+
+      const { embeddings, errors } = await openaiService.generateEmbeddings(
+        rendered.map(item => item.content),
+        tenantId,
+        provider
+      );
+
+      const existingMetadata = await supabaseService.getVectorMetadata(
+        tenantId,
+        tenantProjects.map(project => project.id)
+      );
+
+      const rows = tenantProjects
+        .map((project, index) => ({ project, index }))
+        .filter(({ index }) => !errors.includes(index))
+        .map(({ project, index }) => ({
+          migration_id: migration.id,
+          id: project.id,
+          inmobiliaria_id: tenantId,
+          project_id: project.id,
+          content: rendered[index].content,
+          embedding: embeddings[index],
+          metadata: {
+            lastUpdate: new Date().toISOString(),
+            contentVersion: (existingMetadata.get(project.id)?.contentVersion ?? 0) + 1,
+            contentHash: computeContentHash(rendered[index].content, provider.model),
+            processedFields: rendered[index].processedFields,
+            dimensions: embeddings[index].length,
+            model: provider.model
+          },
+          updated_at: new Date().toISOString()
+        }));
+
+      if (rows.length > 0) {
+        const { error } = await rateLimiter.schedule(tenantId, async () => supabaseService.getClient()
+          .from('proyecto_vector_shadow')
+          .upsert(rows, { onConflict: 'migration_id,project_id' }));
+        if (error) {
+          logger.error({ error, migrationId: migration.id, tenantId }, 'Error guardando embeddings en la tabla sombra');
+          throw error;
+        }
+      }
+
+      migration.token_count += tokens;
+      migration.cost_estimate += estimateEmbeddingCost(provider.model, tokens);
+
+      for (const index of errors) {
+        const projectId = tenantProjects[index].id;
+        if (!migration.failed_project_ids.includes(projectId)) {
+          migration.failed_project_ids.push(projectId);
+        }
+      }
+      if (countProgress) {
+        migration.processed_projects += rows.length;
+      }
+    }
+  }
+
+  /**
+   * Encola la regeneración de los proyectos modificados desde una fecha y de los indicados
+   */
+  private async enqueueResync(migration: VectorMigration, since: Date, projectIds: string[]): Promise<void> {
+    const projects = await supabaseService.getProjectsByIds(projectIds);
+    let cursor: string | null = null;
+    for (;;) {
+      const page = await supabaseService.getProjectsPage({
+        tenantId: migration.inmobiliaria_id,
+        afterId: cursor,
+        updatedSince: since,
+        limit: config.monitor.batchSize
+      });
+      if (page.length === 0) {
+        break;
+      }
+      projects.push(...page);
+      cursor = page[page.length - 1].id;
+    }
+
+    for (const project of projects) {
+      await jobQueueService.enqueue({
+        inmobiliaria_id: project.inmobiliaria_id,
+        project_id: project.id,
+        event: 'UPDATE',
+        delayMs: 0
+      });
+    }
+
+    if (projects.length > 0) {
+      logger.info({ migrationId: migration.id, enqueued: projects.length }, 'Proyectos encolados tras la migración');
+    }
+  }
+
+  /**
+   * Proveedor impuesto por la última migración aplicada que afecta al tenant
+   * Sin tenant solo se consideran las migraciones globales
+   */
+  private resolveProvider(tenantId?: string): EmbeddingProviderSpec | undefined {
+    let latest: VectorMigration | undefined;
+    for (const migration of this.migrations.values()) {
+      if (migration.status !== 'CUTOVER') {
+        continue;
+      }
+      if (migration.inmobiliaria_id !== null && migration.inmobiliaria_id !== tenantId) {
+        continue;
+      }
+      if (!latest || migration.cutover_at! > latest.cutover_at!) {
+        latest = migration;
+      }
+    }
+
+    return latest ? { provider: latest.provider, model: latest.model } : undefined;
+  }
+
+  private async refresh(): Promise<void> {
+    const { data, error } = await supabaseService.getClient()
+      .from('vector_model_migrations')
+      .select('*');
+
+    if (error) {
+      logger.error({ error }, 'Error al obtener migraciones de modelo');
+      throw error;
+    }
+
+    for (const migration of (data || []) as VectorMigration[]) {
+      // Las migraciones que se ejecutan en esta instancia tienen el estado más reciente
+      if (!this.running.has(migration.id)) {
+        this.migrations.set(migration.id, migration);
+      }
+    }
+  }
+
+  private async save(migration: VectorMigration): Promise<void> {
+    migration.updated_at = new Date().toISOString();
+    const { error } = await supabaseService.getClient()
+      .from('vector_model_migrations')
+      .update(migration)
+      .eq('id', migration.id);
+
+    if (error) {
+      logger.error({ error, migrationId: migration.id }, 'Error al guardar migración de modelo');
+      throw error;
+    }
+  }
+
+  private requireMigration(id: string, statuses: VectorMigration['status'][]): VectorMigration {
+    const migration = this.migrations.get(id);
+    if (!migration) {
+      throw new Error(`Migración ${id} no encontrada`);
+    }
+    if (!statuses.includes(migration.status)) {
+      throw new Error(`La migración ${id} está en estado ${migration.status}; se requiere ${statuses.join(' o ')}`);
+    }
+    return migration;
+  }
+
+  private assertAvailable(): void {
+    if (isDemoMode) {
+      throw new Error('La migración de modelo no está disponible en modo demo');
+    }
+  }
+}
+
+// Exportar una instancia única del servicio
+export const vectorMigrationService = new VectorMigrationService();
@@ -1,23 +1,78 @@
-import { config, logger } from '../config/config.js';
+import { config, logger, MAX_CONTENT_LENGTH } from '../config/config.js';
 import { supabaseService } from './supabase.js';
 import { openaiService } from './openai.js';
-import { Project, ProjectProcessingStatus } from '../types/project.js';
-import { VectorData, VectorSyncStatus } from '../types/vector.js';
+import { rateLimiter, RateLimitState } from './rate-limiter.js';
+import { deadLetterService } from './dead-letter.js';
+import { countTokens, splitIntoChunks } from './tokenizer.js';
+import { computeContentHash, contentTemplateService, renderProjectContent } from './content-template.js';
+import { SyncStateStore, syncStateStore } from './state-store.js';
+import { usageService } from './usage.js';
+import { BudgetExceededError, budgetService } from './budget.js';
+import { Project, ProjectChange, ProjectProcessingResult, ProjectProcessingStatus } from '../types/project.js';
+import { TenantSyncState, VectorData, VectorSyncMetrics, VectorSyncStatus } from '../types/vector.js';
 
 // Verificar si estamos en modo demo
 const isDemoMode = process.env.DEMO_MODE === 'true';
 
+// Resumen del procesamiento de un lote de proyectos
+interface BatchSummary {
+  processed: number;
+  skipped: number;
+  failed: number;
+  failedProjectIds: string[];
+}
+
 export class MonitorService {
   private isRunning: boolean = false;
-  private lastCheck: Date = new Date(0);
   private syncStatus: Map<string, VectorSyncStatus> = new Map();
   private processingStatus: Map<string, ProjectProcessingStatus> = new Map();
+  private watermarks: Map<string, string> = new Map();
+  private projectLocks: Map<string, Promise<void>> = new Map();
+  private lastCatchUpAt?: string;
+  private startedAt: string = new Date().toISOString();
 
-  constructor() {
+  constructor(private stateStore: SyncStateStore = syncStateStore) {
     // Inicializar estado del monitor
     this.resetStatus();
   }
 
+  /**
+   * Carga el estado de sincronización persistido para que sobreviva a reinicios
+   * La verificación incremental de cada tenant se reanuda desde su marca de agua
+   */
+  async initialize(): Promise<void> {
+    try {
+      const states = await this.stateStore.loadAll();
+
+      for (const state of states) {
+        const status = {
+          ...this.createEmptyStatus(state.inmobiliaria_id),
+          ...state.status
+        };
+        // Una sincronización interrumpida por el reinicio ya no está en curso
+        if (status.status === 'SYNCING') {
+          status.status = 'IDLE';
+        }
+        this.syncStatus.set(state.inmobiliaria_id, status);
+
+        for (const entry of state.processing || []) {
+          this.processingStatus.set(entry.project_id, entry);
+        }
+
+        if (state.watermark) {
+          this.watermarks.set(state.inmobiliaria_id, state.watermark);
+        }
+      }
+
+      logger.info({
+        tenants: states.length,
+        watermarks: this.watermarks.size
+      }, 'Estado de sincronización restaurado');
+    } catch (error) {
+      logger.error({ error }, 'No se pudo restaurar el estado de sincronización, iniciando vacío');
+    }
+  }
+
   /**
    * Inicia el monitoreo de cambios
    */
@@ -52,26 +107,201 @@ export class MonitorService {
 
   /**
    * Obtiene el estado de sincronización para un tenant
+   * El consumo de tokens y el costo provienen del registro de consumo
    */
   getTenantStatus(tenantId: string): VectorSyncStatus | undefined {
-    return this.syncStatus.get(tenantId);
+    const status = this.syncStatus.get(tenantId);
+    if (!status) {
+      return undefined;
+    }
+
+    const usage = usageService.getTotals(tenantId);
+    return {
+      ...status,
+      performance: {
+        ...status.performance,
+        tokenCount: usage.tokens,
+        costEstimate: usage.cost
+      }
+    };
+  }
+
+  /**
+   * Métricas agregadas desde el inicio del servicio, con el detalle por tenant
+   * Los tokens y costos son históricos (registro de consumo)
+   */
+  getMetrics(): VectorSyncMetrics {
+    const usage = usageService.getAllTotals();
+    const tenantIds = new Set([...this.syncStatus.keys(), ...usage.keys()]);
+    const tenantMetrics: VectorSyncMetrics['tenantMetrics'] = {};
+    let weightedTime = 0;
+
+    for (const tenantId of tenantIds) {
+      const status = this.syncStatus.get(tenantId);
+      const tenantUsage = usage.get(tenantId);
+      tenantMetrics[tenantId] = {
+        processed: status?.processedProjects ?? 0,
+        errors: status?.failedProjects ?? 0,
+        tokens: tenantUsage?.tokens ?? 0,
+        cost: tenantUsage?.cost ?? 0
+      };
+      weightedTime += (status?.performance.averageProcessingTime ?? 0) * (status?.processedProjects ?? 0);
+    }
+
+    const metrics = Object.values(tenantMetrics);
+    const successCount = metrics.reduce((total, tenant) => total + tenant.processed, 0);
+    const errorCount = metrics.reduce((total, tenant) => total + tenant.errors, 0);
+
+    return {
+      syncStart: this.startedAt,
+      totalProcessed: successCount + errorCount,
+      successCount,
+      errorCount,
+      tokensProcessed: metrics.reduce((total, tenant) => total + tenant.tokens, 0),
+      processingTime: successCount > 0 ? weightedTime / successCount : 0, // Promedio por proyecto (ms)
+      tenantMetrics
+    };
+  }
+
+  /**
+   * Obtiene el estado del limitador de tasa para un tenant
+   */
+  getRateLimitState(tenantId: string): RateLimitState {
+    return rateLimiter.getState(tenantId);
+  }
+
+  /**
+   * Recupera los cambios perdidos por otra fuente de cambios (p.ej. Realtime): entrega a enqueue
+   * los proyectos modificados desde la marca de agua de cada tenant, para que se procesen por la cola.
+   * Con disconnectedAt, los tenants recuperados en la conexión anterior solo se recorren desde la
+   * desconexión. Al terminar, la marca de agua del tenant pasa al inicio de la recuperación: los
+   * cambios posteriores llegan por la fuente ya conectada. Retorna el número de proyectos entregados
+   */
+  async catchUp(
+    enqueue: (tenantId: string, project: Project) => Promise<void>,
+    disconnectedAt?: Date
+  ): Promise<number> {
+    if (isDemoMode) {
+      logger.info('Modo demo: Simulando recuperación de cambios');
+      return 0;
+    }
+
+    const startedAt = new Date().toISOString();
+    const previousCatchUp = this.lastCatchUpAt;
+    const tenants = await supabaseService.getActiveTenants();
+    let enqueued = 0;
+
+    logger.info({ tenants: tenants.length, disconnectedAt }, 'Recuperación de cambios desde las marcas de agua');
+
+    for (const tenantId of tenants) {
+      try {
+        // Si la recuperación anterior terminó para el tenant, hasta la desconexión la fuente estuvo conectada
+        const watermark = this.watermarks.get(tenantId);
+        const covered = !!disconnectedAt && !!previousCatchUp && !!watermark &&
+          new Date(watermark).getTime() >= new Date(previousCatchUp).getTime();
+        const from = covered ? disconnectedAt!.getTime() : watermark ? new Date(watermark).getTime() : undefined;
+        const since = from === undefined ? new Date(0) : new Date(from - config.monitor.watermarkOverlap);
+
+        let cursor: Project | null = null;
+        while (true) {
+          const batch: Project[] = await supabaseService.getModifiedProjects(tenantId, since, {
+            after: cursor,
+            limit: config.monitor.batchSize
+          });
+          for (const project of batch) {
+            await enqueue(tenantId, project);
+          }
+          enqueued += batch.length;
+
+          if (batch.length < config.monitor.batchSize) {
+            break;
+          }
+          cursor = batch[batch.length - 1];
+        }
+
+        this.advanceWatermark(tenantId, startedAt);
+        await this.persistTenantState(tenantId);
+      } catch (error) {
+        logger.error({ error, tenantId }, 'Error recuperando cambios del tenant, se reintentará en la próxima conexión');
+      }
+    }
+
+    this.lastCatchUpAt = startedAt;
+    logger.info({ tenants: tenants.length, enqueued }, 'Recuperación de cambios encolada');
+    return enqueued;
   }
 
   /**
    * Fuerza una sincronización inmediata para un tenant
+   * Con force se ignora la marca de agua y se regeneran todos los embeddings del tenant
+   * aunque la huella del contenido no haya cambiado; la marca de agua se reemplaza a medida que terminan los lotes
    */
-  async forceSyncTenant(tenantId: string): Promise<void> {
-    logger.info({ tenantId }, 'Forzando sincronización para tenant');
-    await this.processTenantChanges(tenantId);
+  async forceSyncTenant(tenantId: string, force = false): Promise<void> {
+    logger.info({ tenantId, force }, 'Forzando sincronización para tenant');
+    await this.processTenantChanges(tenantId, force);
   }
 
   /**
    * Procesa un proyecto específico dado su ID y el ID del tenant
    * Este método es utilizado cuando se recibe una notificación via webhook
+   * Para eventos DELETE (o proyectos que ya no existen) elimina el vector asociado.
+   * Si se recibe la fila del proyecto (p.ej. desde un Database Webhook) se evita consultarla.
+   * Con force se regenera el embedding aunque la huella del contenido no haya cambiado.
+   * Las llamadas concurrentes para un mismo proyecto se ejecutan en serie
    */
-  async processProject(tenantId: string, projectId: string): Promise<void> {
+  async processProject(
+    tenantId: string,
+    projectId: string,
+    changeType: ProjectChange['changeType'] = 'UPDATE',
+    record?: Project,
+    force: boolean = false
+  ): Promise<ProjectProcessingResult> {
+    return this.withProjectLock(`${tenantId}:${projectId}`, () =>
+      this.processProjectNow(tenantId, projectId, changeType, record, force)
+    );
+  }
+
+  /**
+   * Ejecuta la tarea cuando termine cualquier procesamiento previo del mismo proyecto
+   */
+  private async withProjectLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.projectLocks.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const done = new Promise<void>(resolve => { release = resolve; });
+    const current = previous.then(() => done);
+    this.projectLocks.set(key, current);
+
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+      if (this.projectLocks.get(key) === current) {
+        this.projectLocks.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Ejecuta la tarea con los locks de varios proyectos; se toman en orden para evitar bloqueos mutuos
+   */
+  private async withProjectLocks<T>(keys: string[], task: () => Promise<T>): Promise<T> {
+    const [first, ...rest] = [...new Set(keys)].sort();
+    if (!first) {
+      return task();
+    }
+    return this.withProjectLock(first, () => this.withProjectLocks(rest, task));
+  }
+
+  private async processProjectNow(
+    tenantId: string,
+    projectId: string,
+    changeType: ProjectChange['changeType'],
+    record?: Project,
+    force: boolean = false
+  ): Promise<ProjectProcessingResult> {
     const startTime = Date.now();
-    logger.info({ tenantId, projectId }, 'Procesando proyecto específico por webhook');
+    logger.info({ tenantId, projectId, changeType }, 'Procesando proyecto específico por webhook');
     
     try {
       const status = this.getOrCreateStatus(tenantId);
@@ -80,62 +310,20 @@ export class MonitorService {
       if (isDemoMode) {
         logger.debug({ tenantId, projectId }, 'Simulando procesamiento de proyecto (modo demo)');
         await this.sleep(500); // Simular procesamiento
-        return;
+        return changeType === 'DELETE' ? 'DELETED' : 'PROCESSED';
       }
-      
-      // Verificación alternativa de existencia del proyecto (método simplificado)
-      let projectExists = false;
-      try {
-        // Utilizar el método checkProjectExists que acabamos de añadir a SupabaseService
-        projectExists = await supabaseService.checkProjectExists(projectId);
-        
-        if (projectExists) {
-          logger.info({
-            tenantId,
-            projectId,
-            checkMethod: 'simplified-check',
-          }, 'Verificación simple confirma que el proyecto existe');
-        } else {
-          logger.warn({
-            tenantId,
-            projectId
-          }, 'Verificación simple no encontró el proyecto');
-        }
-      } catch (checkError) {
-        logger.warn({
-          checkError,
-          tenantId,
-          projectId,
-          errorMessage: checkError instanceof Error ? checkError.message : 'Error desconocido'
-        }, 'Error en verificación alternativa');
+
+      // Los eventos DELETE no requieren consultar el proyecto
+      if (changeType === 'DELETE') {
+        return await this.removeProject(tenantId, projectId);
       }
       
-      // Obtener el proyecto específico de Supabase
-      // Utiliza el getProject mejorado con reintentos para manejar condiciones de carrera
-      const project = await supabaseService.getProject(tenantId, projectId, 5); // Aumentamos a 5 reintentos
-      
-      if (!project) {
-        logger.warn({
-          tenantId,
-          projectId,
-          elapsedMs: Date.now() - startTime,
-          simpleCheckFoundProject: projectExists
-        }, 'Proyecto no encontrado después de todos los reintentos');
-        
-        // Si la verificación simple encontró el proyecto pero getProject falló, hay un problema con permisos o formato
-        if (projectExists) {
-          logger.error({
-            tenantId,
-            projectId,
-            issue: 'Inconsistencia en la verificación'
-          }, 'La verificación simple encontró el proyecto pero getProject no pudo recuperarlo');
-        }
-        
-        // Actualizar estadísticas de fallos
-        status.failedProjects += 1;
-        status.error = `Proyecto ${projectId} no encontrado después de múltiples intentos`;
-        return;
+      // Usar la fila recibida en el webhook o consultarla con reintentos
+      const lookup = record ?? await this.lookupProject(tenantId, projectId, changeType, startTime);
+      if (typeof lookup === 'string') {
+        return lookup;
       }
+      const project = lookup;
       
       logger.info({
         tenantId,
@@ -146,10 +334,14 @@ export class MonitorService {
       }, 'Proyecto encontrado, generando embedding');
       
       // Procesar un batch de un solo proyecto
-      await this.processBatch(tenantId, [project]);
+      const summary = await this.processBatch(tenantId, [project], force);
+      if (summary.failed > 0) {
+        throw new Error(`${this.processingStatus.get(projectId)?.error ?? 'Error generando embedding'} (proyecto ${projectId})`);
+      }
       
       // Actualizar estadísticas
-      status.processedProjects += 1;
+      status.processedProjects += summary.processed;
+      status.skippedProjects += summary.skipped;
       status.lastSync = new Date().toISOString();
       
       const processingTime = Date.now() - startTime;
@@ -167,6 +359,8 @@ export class MonitorService {
         status.performance.averageProcessingTime =
           (status.performance.averageProcessingTime * 0.7) + (processingTime * 0.3);
       }
+
+      return summary.skipped > 0 ? 'UNCHANGED' : 'PROCESSED';
     } catch (error) {
       const processingTime = Date.now() - startTime;
       logger.error({
@@ -178,16 +372,102 @@ export class MonitorService {
         errorStack: error instanceof Error ? error.stack : undefined
       }, 'Error procesando proyecto específico');
       
-      // Actualizar estadísticas de error
+      // Actualizar estadísticas de error (un proyecto pospuesto por presupuesto no es un fallo)
       const status = this.getOrCreateStatus(tenantId);
-      status.failedProjects += 1;
       status.error = error instanceof Error ? error.message : 'Error desconocido';
-      status.status = 'ERROR';
+      if (!(error instanceof BudgetExceededError)) {
+        status.failedProjects += 1;
+        status.status = 'ERROR';
+      }
       
       throw error;
+    } finally {
+      await this.persistTenantState(tenantId);
     }
   }
 
+  /**
+   * Verifica la existencia del proyecto y lo obtiene con reintentos
+   * Retorna el resultado final si el proyecto fue eliminado o no se encontró
+   */
+  private async lookupProject(
+    tenantId: string,
+    projectId: string,
+    changeType: ProjectChange['changeType'],
+    startTime: number
+  ): Promise<Project | ProjectProcessingResult> {
+    // Verificación de existencia del proyecto en el tenant. Un error de consulta se
+    // propaga para que el trabajo se reintente en lugar de eliminar un vector válido
+    const projectExists = await supabaseService.checkProjectExists(projectId, tenantId);
+    if (projectExists) {
+      logger.info({
+        tenantId,
+        projectId,
+        checkMethod: 'simplified-check',
+      }, 'Verificación simple confirma que el proyecto existe');
+    } else {
+      logger.warn({
+        tenantId,
+        projectId
+      }, 'Verificación simple no encontró el proyecto');
+    }
+
+    // Si el proyecto desapareció en una actualización, se trata como eliminación.
+    // En INSERT se mantienen los reintentos por posibles condiciones de carrera
+    if (!projectExists && changeType !== 'INSERT') {
+      logger.info({ tenantId, projectId, changeType }, 'Proyecto ya no existe, eliminando vector');
+      return await this.removeProject(tenantId, projectId);
+    }
+    
+    // Obtener el proyecto específico de Supabase
+    // Utiliza el getProject mejorado con reintentos para manejar condiciones de carrera
+    const project = await supabaseService.getProject(tenantId, projectId, 5); // Aumentamos a 5 reintentos
+    
+    if (!project) {
+      logger.warn({
+        tenantId,
+        projectId,
+        elapsedMs: Date.now() - startTime,
+        simpleCheckFoundProject: projectExists
+      }, 'Proyecto no encontrado después de todos los reintentos');
+      
+      // Si la verificación simple encontró el proyecto pero getProject falló, hay un problema con permisos o formato
+      if (projectExists) {
+        logger.error({
+          tenantId,
+          projectId,
+          issue: 'Inconsistencia en la verificación'
+        }, 'La verificación simple encontró el proyecto pero getProject no pudo recuperarlo');
+      }
+      
+      // Actualizar estadísticas de fallos
+      const status = this.getOrCreateStatus(tenantId);
+      status.failedProjects += 1;
+      status.error = `Proyecto ${projectId} no encontrado después de múltiples intentos`;
+      return 'NOT_FOUND';
+    }
+
+    return project;
+  }
+
+  /**
+   * Elimina el vector de un proyecto borrado y actualiza las estadísticas del tenant
+   */
+  private async removeProject(tenantId: string, projectId: string): Promise<ProjectProcessingResult> {
+    const status = this.getOrCreateStatus(tenantId);
+    const deleted = await rateLimiter.schedule(tenantId, () => supabaseService.deleteVector(tenantId, projectId));
+
+    this.processingStatus.delete(projectId);
+    await deadLetterService.resolve(tenantId, [projectId]);
+    if (deleted) {
+      status.deletedProjects += 1;
+    }
+    status.lastSync = new Date().toISOString();
+
+    logger.info({ tenantId, projectId, vectorDeleted: deleted }, 'Proyecto eliminado procesado');
+    return 'DELETED';
+  }
+
   private async checkForChanges(): Promise<void> {
     try {
       if (isDemoMode) {
@@ -202,17 +482,19 @@ export class MonitorService {
           logger.debug({ tenantId }, 'No hay cambios para procesar (modo demo)');
         }
         
-        this.lastCheck = new Date();
         return;
       }
       
       const tenants = await supabaseService.getActiveTenants();
       
+      // Cada tenant avanza su propia marca de agua: un fallo en uno no afecta a los demás
       for (const tenantId of tenants) {
-        await this.processTenantChanges(tenantId);
+        try {
+          await this.processTenantChanges(tenantId);
+        } catch (error) {
+          logger.error({ error, tenantId }, 'Error sincronizando tenant, se reintentará en el próximo ciclo');
+        }
       }
-
-      this.lastCheck = new Date();
     } catch (error) {
       logger.error({ error }, 'Error al verificar cambios');
       if (!isDemoMode) {
@@ -223,7 +505,7 @@ export class MonitorService {
     }
   }
 
-  private async processTenantChanges(tenantId: string): Promise<void> {
+  private async processTenantChanges(tenantId: string, force = false): Promise<void> {
     const status = this.getOrCreateStatus(tenantId);
     status.status = 'SYNCING';
 
@@ -236,26 +518,83 @@ export class MonitorService {
         return;
       }
       
-      // Obtener proyectos modificados
-      const projects = await supabaseService.getModifiedProjects(
-        tenantId,
-        this.lastCheck
-      );
+      // Obtener proyectos modificados desde la marca de agua del tenant,
+      // con una ventana de solapamiento para tolerar diferencias de reloj.
+      // Una resincronización completa recorre todo el tenant; la marca de agua anterior se conserva
+      // hasta que termina el primer lote, que la reemplaza
+      const watermark = force ? undefined : this.watermarks.get(tenantId);
+      const since = watermark
+        ? new Date(new Date(watermark).getTime() - config.monitor.watermarkOverlap)
+        : new Date(0);
+      let replaceWatermark = force;
+
+      // Procesar proyectos en lotes, paginando en orden de updated_at. La marca de agua avanza
+      // lote a lote y se detiene antes del primer proyecto fallido para reintentarlo en el próximo ciclo;
+      // los proyectos que se vuelvan a leer se omiten gracias a la huella de contenido
+      const totals: BatchSummary = { processed: 0, skipped: 0, failed: 0, failedProjectIds: [] };
+      let cursor: Project | null = null;
+      let projectCount = 0;
+      let watermarkBlocked = false;
+      while (true) {
+        const batch: Project[] = await supabaseService.getModifiedProjects(tenantId, since, {
+          after: cursor,
+          limit: config.monitor.batchSize
+        });
+        if (batch.length === 0) {
+          break;
+        }
 
-      if (projects.length === 0) {
-        logger.debug({ tenantId }, 'No hay cambios para procesar');
-        return;
+        if (projectCount === 0) {
+          logger.info({ tenantId, since: since.toISOString() }, 'Procesando cambios de proyectos');
+        }
+        projectCount += batch.length;
+        cursor = batch[batch.length - 1];
+
+        // Se toman los locks de los proyectos del lote para no competir con los workers de la cola
+        const summary = await this.withProjectLocks(
+          batch.map(project => `${tenantId}:${project.id}`),
+          () => this.processBatch(tenantId, batch, force)
+        );
+        totals.processed += summary.processed;
+        totals.skipped += summary.skipped;
+        totals.failed += summary.failed;
+        totals.failedProjectIds.push(...summary.failedProjectIds);
+
+        if (!watermarkBlocked) {
+          // Hasta el último proyecto completado o, si falla el primero, hasta él mismo:
+          // el solapamiento de la marca de agua hace que se vuelva a leer
+          const firstFailed = batch.findIndex(project => summary.failedProjectIds.includes(project.id));
+          const reached = firstFailed === -1 ? batch[batch.length - 1] : batch[Math.max(firstFailed - 1, 0)];
+          if (replaceWatermark) {
+            this.watermarks.set(tenantId, new Date(reached.updated_at).toISOString());
+            replaceWatermark = false;
+          } else {
+            this.advanceWatermark(tenantId, reached.updated_at);
+          }
+          watermarkBlocked = firstFailed !== -1;
+        }
+
+        if (batch.length < config.monitor.batchSize) {
+          break;
+        }
       }
 
-      logger.info(
-        { tenantId, projectCount: projects.length },
-        'Procesando cambios de proyectos'
-      );
+      if (projectCount === 0) {
+        logger.debug({ tenantId, since: since.toISOString() }, 'No hay cambios para procesar');
+        status.status = 'IDLE';
+        return;
+      }
 
-      // Procesar proyectos en lotes
-      for (let i = 0; i < projects.length; i += config.monitor.batchSize) {
-        const batch = projects.slice(i, i + config.monitor.batchSize);
-        await this.processBatch(tenantId, batch);
+      // Registrar en dead-letter los proyectos que no se pudieron procesar
+      for (const projectId of totals.failedProjectIds) {
+        const failure = this.processingStatus.get(projectId);
+        await deadLetterService.record({
+          inmobiliaria_id: tenantId,
+          project_id: projectId,
+          error: new Error(failure?.error || 'Error generando embedding'),
+          errorClass: 'EmbeddingError',
+          attempts: failure?.attempts
+        });
       }
 
       // Limpiar vectores huérfanos
@@ -264,7 +603,13 @@ export class MonitorService {
       // Actualizar estado
       status.status = 'IDLE';
       status.lastSync = new Date().toISOString();
-      status.processedProjects += projects.length;
+      status.processedProjects += totals.processed;
+      status.skippedProjects += totals.skipped;
+      status.failedProjects += totals.failed;
+
+      if (watermarkBlocked) {
+        logger.warn({ tenantId, failed: totals.failed }, 'Marca de agua detenida antes del primer proyecto fallido');
+      }
 
     } catch (error) {
       logger.error({ error, tenantId }, 'Error procesando cambios del tenant');
@@ -276,100 +621,254 @@ export class MonitorService {
       } else {
         logger.warn('Error ignorado en modo demo');
       }
+    } finally {
+      await this.persistTenantState(tenantId);
     }
   }
 
-  private async processBatch(tenantId: string, projects: Project[]): Promise<void> {
-    const processedContents = await Promise.all(
-      projects.map(project => this.prepareProjectContent(project))
+  private async processBatch(tenantId: string, projects: Project[], force: boolean = false): Promise<BatchSummary> {
+    const summary: BatchSummary = { processed: 0, skipped: 0, failed: 0, failedProjectIds: [] };
+    const model = openaiService.getModel(tenantId);
+
+    // Contenido generado con la plantilla del tenant
+    const template = await contentTemplateService.getTemplate(tenantId);
+    const renderedContents = projects.map(project => renderProjectContent(project, template));
+    const processedContents = renderedContents.map(rendered => rendered.content);
+    const contentHashes = processedContents.map(content => computeContentHash(content, model));
+
+    // Comparar la huella del contenido con la almacenada para evitar embeddings innecesarios
+    const existingMetadata = await supabaseService.getVectorMetadata(
+      tenantId,
+      projects.map(project => project.id)
     );
 
-    const { embeddings, errors } = await openaiService.generateEmbeddings(
-      processedContents
+    const pendingIndexes: number[] = [];
+    projects.forEach((project, index) => {
+      const existing = existingMetadata.get(project.id);
+      if (!force && existing?.contentHash === contentHashes[index]) {
+        summary.skipped += 1;
+        this.processingStatus.delete(project.id);
+        logger.debug({ tenantId, projectId: project.id }, 'Contenido sin cambios, se omite el embedding');
+      } else {
+        pendingIndexes.push(index);
+      }
+    });
+
+    if (pendingIndexes.length === 0) {
+      await deadLetterService.resolve(tenantId, projects.map(project => project.id));
+      return summary;
+    }
+
+    // En modo fragmentado cada proyecto aporta varias entradas; se generan todas en el mismo batch
+    const projectChunks = pendingIndexes.map(index => this.splitProjectContent(processedContents[index]));
+    const chunkOffsets: number[] = [];
+    const inputs: string[] = [];
+    projectChunks.forEach(chunks => {
+      chunkOffsets.push(inputs.length);
+      inputs.push(...chunks);
+    });
+
+    // Sin presupuesto disponible se rechaza el lote completo antes de consumir tokens
+    await budgetService.assertWithinBudget(
+      tenantId,
+      model,
+      inputs.reduce((total, input) => total + Math.min(countTokens(input), MAX_CONTENT_LENGTH), 0)
     );
 
-    // Actualizar vectores exitosos
-    await Promise.all(
-      embeddings.map(async (embedding, index) => {
-        if (!errors.includes(index)) {
-          const project = projects[index];
-          const content = processedContents[index];
-          const vectorData: VectorData = {
-            id: project.id,
-            inmobiliaria_id: tenantId,
-            project_id: project.id,
-            content: content, // Agregar el campo content
-            embedding: embedding, // Cambiar content_embedding a embedding
-            metadata: {
-              lastUpdate: new Date().toISOString(),
-              contentVersion: 1,
-              processedFields: ['nombre', 'descripcion', 'caracteristicas'],
-              dimensions: embedding.length,
-              model: process.env.OPENAI_MODEL || 'text-embedding-3-small'
-            }
-          };
-
-          await supabaseService.upsertVector(vectorData);
+    const { embeddings, errors: inputErrors } = await openaiService.generateEmbeddings(inputs, tenantId);
+    const failedInputs = new Set(inputErrors);
+
+    // Un proyecto falla si falla cualquiera de sus fragmentos
+    const errors: number[] = [];
+    projectChunks.forEach((chunks, index) => {
+      if (chunks.some((_, chunkIndex) => failedInputs.has(chunkOffsets[index] + chunkIndex))) {
+        errors.push(index);
+      }
+    });
+
+    // Actualizar vectores exitosos; un fallo al guardar solo afecta a su proyecto
+    const failures = new Map<number, string>(errors.map(index => [index, 'Error generando embedding']));
+    const stored = await Promise.allSettled(
+      pendingIndexes.map(async (projectIndex, index) => {
+        if (errors.includes(index)) {
+          return;
+        }
+
+        const project = projects[projectIndex];
+        const chunks = projectChunks[index];
+        const chunkEmbeddings = chunks.map((_, chunkIndex) => embeddings[chunkOffsets[index] + chunkIndex]);
+        const embedding = config.chunking.enabled
+          ? this.averageEmbeddings(chunkEmbeddings)
+          : chunkEmbeddings[0];
+        const previousVersion = existingMetadata.get(project.id)?.contentVersion ?? 0;
+        const vectorData: VectorData = {
+          id: project.id,
+          inmobiliaria_id: tenantId,
+          project_id: project.id,
+          content: processedContents[projectIndex], // Agregar el campo content
+          embedding: embedding, // Cambiar content_embedding a embedding
+          metadata: {
+            lastUpdate: new Date().toISOString(),
+            contentVersion: previousVersion + 1,
+            contentHash: contentHashes[projectIndex],
+            processedFields: renderedContents[projectIndex].processedFields,
+            dimensions: embedding.length,
+            model,
+            ...(config.chunking.enabled ? { chunkCount: chunks.length } : {})
+          }
+        };
+
+        await rateLimiter.schedule(tenantId, () => supabaseService.upsertVector(vectorData));
+        if (config.chunking.enabled) {
+          await rateLimiter.schedule(tenantId, () => supabaseService.replaceVectorChunks(
+            tenantId,
+            project.id,
+            chunks.map((content, chunkIndex) => ({
+              inmobiliaria_id: tenantId,
+              project_id: project.id,
+              chunk_index: chunkIndex,
+              content,
+              embedding: chunkEmbeddings[chunkIndex],
+              token_count: countTokens(content)
+            }))
+          ));
         }
+        summary.processed += 1;
       })
     );
+    stored.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        const projectId = projects[pendingIndexes[index]].id;
+        logger.error({ error: result.reason, tenantId, projectId }, 'Error guardando vector del proyecto');
+        failures.set(index, result.reason instanceof Error ? result.reason.message : 'Error guardando vector');
+      }
+    });
 
     // Registrar errores
-    errors.forEach(index => {
-      const project = projects[index];
+    failures.forEach((error, index) => {
+      const project = projects[pendingIndexes[index]];
+      summary.failed += 1;
+      summary.failedProjectIds.push(project.id);
       this.processingStatus.set(project.id, {
         project_id: project.id,
         inmobiliaria_id: tenantId,
         status: 'ERROR',
-        error: 'Error generando embedding',
+        error,
         last_processed: new Date().toISOString(),
         attempts: (this.processingStatus.get(project.id)?.attempts || 0) + 1
       });
     });
+
+    // Los proyectos procesados u omitidos ya no están en estado de error
+    await deadLetterService.resolve(
+      tenantId,
+      projects.map(project => project.id).filter(id => !summary.failedProjectIds.includes(id))
+    );
+
+    return summary;
   }
 
-  private prepareProjectContent(project: Project): string {
-    // Obtener el objeto caracteristicas o un objeto vacío si no existe
-    const caract = project.caracteristicas || {};
-    
-    // Combinar campos relevantes del proyecto para el embedding
-    const content = [
-      caract.nombre,
-      caract.caracteristicas, // Este campo contiene la descripción del proyecto
-      caract.valor,
-      caract.ubicacion,
-      JSON.stringify(caract) // Incluir todas las propiedades adicionales
-    ]
-      .filter(Boolean)
-      .join(' ');
-
-    return content;
+  /**
+   * Divide el contenido en fragmentos solapados si la fragmentación está activa
+   * Sin fragmentación el contenido se envía completo (el servicio de embeddings lo trunca)
+   */
+  private splitProjectContent(content: string): string[] {
+    if (!config.chunking.enabled) {
+      return [content];
+    }
+
+    const chunks = splitIntoChunks(content, config.chunking.chunkTokens, config.chunking.overlapTokens);
+    if (chunks.length > config.chunking.maxChunks) {
+      logger.warn({
+        chunkCount: chunks.length,
+        maxChunks: config.chunking.maxChunks
+      }, 'Contenido excede el máximo de fragmentos, se descartan los últimos');
+      return chunks.slice(0, config.chunking.maxChunks);
+    }
+    return chunks;
+  }
+
+  /**
+   * Promedio normalizado de los embeddings de los fragmentos de un proyecto
+   */
+  private averageEmbeddings(embeddings: number[][]): number[] {
+    const sum = new Array(embeddings[0].length).fill(0);
+    for (const embedding of embeddings) {
+      embedding.forEach((value, index) => {
+        sum[index] += value;
+      });
+    }
+
+    const norm = Math.sqrt(sum.reduce((acc, value) => acc + value * value, 0)) || 1;
+    return sum.map(value => value / norm);
   }
 
   private getOrCreateStatus(tenantId: string): VectorSyncStatus {
     if (!this.syncStatus.has(tenantId)) {
-      this.syncStatus.set(tenantId, {
-        inmobiliaria_id: tenantId,
-        totalProjects: 0,
-        processedProjects: 0,
-        failedProjects: 0,
-        lastSync: new Date(0).toISOString(),
-        status: 'IDLE',
-        performance: {
-          averageProcessingTime: 0,
-          tokenCount: 0,
-          costEstimate: 0
-        }
-      });
+      this.syncStatus.set(tenantId, this.createEmptyStatus(tenantId));
     }
 
     return this.syncStatus.get(tenantId)!;
   }
 
+  private createEmptyStatus(tenantId: string): VectorSyncStatus {
+    return {
+      inmobiliaria_id: tenantId,
+      totalProjects: 0,
+      processedProjects: 0,
+      failedProjects: 0,
+      deletedProjects: 0,
+      skippedProjects: 0,
+      lastSync: new Date(0).toISOString(),
+      status: 'IDLE',
+      performance: {
+        averageProcessingTime: 0,
+        tokenCount: 0,
+        costEstimate: 0
+      }
+    };
+  }
+
+  /**
+   * Avanza la marca de agua de un tenant hasta updatedAt (nunca la retrocede)
+   */
+  private advanceWatermark(tenantId: string, updatedAt: string): void {
+    const current = this.watermarks.get(tenantId);
+    if (!current || new Date(updatedAt).getTime() > new Date(current).getTime()) {
+      this.watermarks.set(tenantId, new Date(updatedAt).toISOString());
+    }
+  }
+
+  /**
+   * Guarda el estado actual de un tenant en el almacenamiento persistente
+   * Los errores se registran pero no interrumpen el procesamiento
+   */
+  private async persistTenantState(tenantId: string): Promise<void> {
+    const status = this.syncStatus.get(tenantId);
+    if (!status) {
+      return;
+    }
+
+    const state: TenantSyncState = {
+      inmobiliaria_id: tenantId,
+      status,
+      watermark: this.watermarks.get(tenantId) ?? null,
+      processing: [...this.processingStatus.values()]
+        .filter(entry => entry.inmobiliaria_id === tenantId),
+      updated_at: new Date().toISOString()
+    };
+
+    try {
+      await this.stateStore.save(state);
+    } catch (error) {
+      logger.error({ error, tenantId }, 'No se pudo persistir el estado de sincronización');
+    }
+  }
+
   private resetStatus(): void {
     this.syncStatus.clear();
     this.processingStatus.clear();
-    this.lastCheck = new Date(0);
+    this.watermarks.clear();
   }
 
   private sleep(ms: number): Promise<void> {
@@ -1,53 +1,212 @@
-import OpenAI from 'openai';
-import { config, logger, MAX_CONTENT_LENGTH, VECTOR_DIMENSIONS } from '../config/config.js';
+import {
+  config,
+  logger,
+  EMBEDDING_BATCH_MAX_ITEMS,
+  EMBEDDING_BATCH_MAX_TOKENS,
+  MAX_CONTENT_LENGTH
+} from '../config/config.js';
+import { getRetryAfterMs, rateLimiter } from './rate-limiter.js';
+import { countTokens, truncateToTokens } from './tokenizer.js';
+import { createEmbeddingProvider, EmbeddingDimensionError, EmbeddingProvider } from './embedding-providers.js';
+import { usageService } from './usage.js';
+import { EmbeddingProviderSpec } from '../types/vector.js';
 
+/**
+ * Servicio de embeddings: agrupa, limita y reintenta los requests y delega la
+ * generación en el proveedor configurado para el despliegue o para cada tenant
+ */
 export class OpenAIService {
-  private client: OpenAI;
+  private providers: Map<string, EmbeddingProvider> = new Map();
+  private providerResolver?: (tenantId?: string) => EmbeddingProviderSpec | undefined;
   private retryDelays = [1000, 2000, 4000]; // Delays en ms para reintentos
 
-  constructor() {
-    this.client = new OpenAI({
-      apiKey: config.openai.apiKey,
-    });
+  /**
+   * Registra una función que puede imponer el proveedor de un tenant por encima
+   * de la configuración (p.ej. tras la migración de modelo del tenant)
+   */
+  setProviderResolver(resolver: (tenantId?: string) => EmbeddingProviderSpec | undefined): void {
+    this.providerResolver = resolver;
+  }
+
+  /**
+   * Obtiene el proveedor de embeddings de un tenant (o el del despliegue)
+   */
+  getProvider(tenantId?: string): EmbeddingProvider {
+    const spec = this.providerResolver?.(tenantId) ?? {
+      provider: (tenantId && config.embedding.tenantProviders[tenantId]) || config.embedding.provider
+    };
+    return this.getProviderFor(spec);
+  }
+
+  /**
+   * Obtiene el proveedor para un proveedor y modelo concretos
+   * Los proveedores se crean la primera vez que se usan
+   */
+  getProviderFor(spec: EmbeddingProviderSpec): EmbeddingProvider {
+    const key = `${spec.provider}:${spec.model ?? ''}`;
+
+    let provider = this.providers.get(key);
+    if (!provider) {
+      provider = createEmbeddingProvider(spec.provider, { model: spec.model });
+      this.providers.set(key, provider);
+      logger.info({ provider: spec.provider, model: provider.model }, 'Proveedor de embeddings inicializado');
+    }
+    return provider;
+  }
+
+  /**
+   * Modelo con el que se generan los embeddings de un tenant
+   */
+  getModel(tenantId?: string): string {
+    return this.getProvider(tenantId).model;
   }
 
   /**
    * Procesa el contenido para generar un embedding
    * Incluye reintentos automáticos en caso de error
    */
-  async generateEmbedding(content: string): Promise<number[]> {
-    const truncatedContent = this.truncateContent(content);
-    
-    for (let attempt = 0; attempt < config.openai.maxRetries; attempt++) {
+  async generateEmbedding(content: string, tenantId?: string): Promise<number[]> {
+    const [embedding] = await this.requestEmbeddings(
+      this.getProvider(tenantId),
+      [this.truncateContent(content)],
+      tenantId
+    );
+    return embedding;
+  }
+
+  /**
+   * Genera embeddings para múltiples contenidos en batch
+   * Agrupa varios contenidos por request (limitado por cantidad y tokens)
+   * y ejecuta los requests con concurrencia acotada por config.monitor.maxConcurrent.
+   * Si un request agrupado falla, sus contenidos se reintentan individualmente
+   * para que solo los índices que realmente fallan queden en `errors`.
+   * Si se indica tenantId, cada request pasa por el limitador de tasa del tenant.
+   * Por defecto se usa el proveedor del tenant; puede indicarse otro explícitamente
+   */
+  async generateEmbeddings(
+    contents: string[],
+    tenantId?: string,
+    provider: EmbeddingProvider = this.getProvider(tenantId)
+  ): Promise<{ embeddings: number[][]; errors: number[] }> {
+    const embeddings: number[][] = [];
+    const errors: number[] = [];
+    const truncatedContents = contents.map(content => this.truncateContent(content));
+    const packs = this.packInputs(truncatedContents);
+
+    logger.debug({
+      contentCount: contents.length,
+      requestCount: packs.length,
+      provider: provider.name,
+      maxConcurrent: config.monitor.maxConcurrent
+    }, 'Generando embeddings en batch');
+
+    await this.runWithConcurrency(packs, config.monitor.maxConcurrent, async (indexes) => {
       try {
-        const response = await this.client.embeddings.create({
-          model: process.env.OPENAI_MODEL || 'text-embedding-3-small',
-          input: truncatedContent,
+        const packEmbeddings = await this.limitedRequest(
+          tenantId,
+          provider,
+          indexes.map(index => truncatedContents[index])
+        );
+        indexes.forEach((contentIndex, position) => {
+          embeddings[contentIndex] = packEmbeddings[position];
         });
+        return;
+      } catch (error) {
+        // Una dimensión incorrecta afecta a todas las entradas: no tiene sentido aislarlas
+        if (error instanceof EmbeddingDimensionError) {
+          throw error;
+        }
+        if (indexes.length === 1) {
+          logger.error(
+            { error, content: truncatedContents[indexes[0]].slice(0, 100) + '...' },
+            'Error generando embedding en batch'
+          );
+          errors.push(indexes[0]);
+          return;
+        }
+
+        logger.warn(
+          { error, packSize: indexes.length },
+          'Error en request agrupado, reintentando contenidos individualmente'
+        );
+      }
+
+      // Aislar los contenidos que fallan procesándolos uno a uno
+      for (const contentIndex of indexes) {
+        try {
+          const [embedding] = await this.limitedRequest(tenantId, provider, [truncatedContents[contentIndex]]);
+          embeddings[contentIndex] = embedding;
+        } catch (error) {
+          if (error instanceof EmbeddingDimensionError) {
+            throw error;
+          }
+          logger.error(
+            { error, content: truncatedContents[contentIndex].slice(0, 100) + '...' },
+            'Error generando embedding en batch'
+          );
+          errors.push(contentIndex);
+        }
+      }
+    });
+
+    errors.sort((a, b) => a - b);
+    return { embeddings, errors };
+  }
 
-        const originalEmbedding = response.data[0].embedding;
-        logger.info({
-          originalDimensions: originalEmbedding.length,
-          targetDimensions: VECTOR_DIMENSIONS,
-          model: process.env.OPENAI_MODEL || 'text-embedding-3-small'
-        }, 'Redimensionando embedding al tamaño requerido');
+  /**
+   * Ejecuta un request de embeddings aplicando el límite de tasa del tenant si corresponde
+   */
+  private limitedRequest(
+    tenantId: string | undefined,
+    provider: EmbeddingProvider,
+    inputs: string[]
+  ): Promise<number[][]> {
+    return this.requestEmbeddings(provider, inputs, tenantId, !!tenantId);
+  }
 
-        return this.resizeVector(originalEmbedding, VECTOR_DIMENSIONS);
+  /**
+   * Ejecuta un request de embeddings con múltiples entradas
+   * Incluye reintentos automáticos en caso de error.
+   * Con rateLimited cada intento consume su propio token del limitador del tenant y libera
+   * el slot de concurrencia durante la espera; un 429 pausa el bucket en ese mismo intento.
+   * Los tokens consumidos se registran en el consumo del tenant
+   */
+  private async requestEmbeddings(
+    provider: EmbeddingProvider,
+    inputs: string[],
+    tenantId?: string,
+    rateLimited: boolean = false
+  ): Promise<number[][]> {
+    for (let attempt = 0; attempt < config.openai.maxRetries; attempt++) {
+      try {
+        return rateLimited && tenantId
+          ? await rateLimiter.schedule(tenantId, () => this.embedOnce(provider, inputs, tenantId))
+          : await this.embedOnce(provider, inputs, tenantId);
       } catch (error: any) {
+        if (error instanceof EmbeddingDimensionError) {
+          logger.error({ error, provider: provider.name }, 'Dimensión de embedding incompatible con la columna');
+          throw error;
+        }
+
         if (attempt === config.openai.maxRetries - 1) {
           logger.error(
-            { error, content: truncatedContent.slice(0, 100) + '...' },
+            { error, inputCount: inputs.length, content: inputs[0].slice(0, 100) + '...' },
             'Error final generando embedding'
           );
           throw error;
         }
 
+        // Respetar Retry-After cuando el proveedor responde 429
+        const retryAfterMs = getRetryAfterMs(error);
         logger.warn(
-          { error, attempt, content: truncatedContent.slice(0, 100) + '...' },
+          { error, attempt, retryAfterMs, inputCount: inputs.length, content: inputs[0].slice(0, 100) + '...' },
           'Reintentando generación de embedding'
         );
 
-        await this.sleep(this.retryDelays[attempt]);
+        // Con el limitador, la pausa por 429 ya la aplica el bucket del tenant al adquirir el siguiente token
+        if (!(rateLimited && retryAfterMs !== undefined)) {
+          await this.sleep(retryAfterMs ?? this.retryDelays[attempt]);
+        }
       }
     }
 
@@ -55,74 +214,111 @@ export class OpenAIService {
   }
 
   /**
-   * Genera embeddings para múltiples contenidos en batch
+   * Un único intento de request de embeddings, validando los resultados del proveedor
    */
-  async generateEmbeddings(
-    contents: string[]
-  ): Promise<{ embeddings: number[][]; errors: number[] }> {
-    const embeddings: number[][] = [];
-    const errors: number[] = [];
+  private async embedOnce(
+    provider: EmbeddingProvider,
+    inputs: string[],
+    tenantId?: string
+  ): Promise<number[][]> {
+    const { results, totalTokens } = await provider.embed(inputs);
+    // El proveedor cobra el request aunque luego se rechacen los resultados
+    if (tenantId) {
+      usageService.record(tenantId, provider.model, totalTokens);
+    }
 
-    await Promise.all(
-      contents.map(async (content, index) => {
-        try {
-          const embedding = await this.generateEmbedding(content);
-          embeddings[index] = embedding;
-        } catch (error) {
-          logger.error(
-            { error, content: content.slice(0, 100) + '...' },
-            'Error generando embedding en batch'
-          );
-          errors.push(index);
-        }
-      })
-    );
+    const failed = results.find(result => !result.success || !result.vector);
+    if (failed) {
+      throw new Error(failed.error || 'El proveedor no generó el embedding');
+    }
 
-    return { embeddings, errors };
+    // Los embeddings se guardan tal cual: una dimensión distinta a la de la columna se rechaza
+    const mismatch = results.find(result => result.vector!.length !== provider.dimensions);
+    if (mismatch) {
+      throw new EmbeddingDimensionError(provider.model, provider.dimensions, mismatch.vector!.length);
+    }
+
+    logger.info({
+      inputCount: inputs.length,
+      totalTokens,
+      dimensions: provider.dimensions,
+      provider: provider.name,
+      model: provider.model
+    }, 'Embeddings generados');
+
+    return results.map(result => result.vector!);
   }
 
   /**
-   * Trunca el contenido al máximo permitido de tokens
-   * Nota: Esta es una aproximación simple, para una implementación más precisa
-   * se debería usar un tokenizador real
+   * Agrupa los índices de los contenidos en requests respetando el máximo
+   * de entradas y de tokens por request
    */
-  private truncateContent(content: string): string {
-    if (content.length <= MAX_CONTENT_LENGTH) {
-      return content;
-    }
+  private packInputs(contents: string[]): number[][] {
+    const packs: number[][] = [];
+    let current: number[] = [];
+    let currentTokens = 0;
 
-    logger.warn(
-      { originalLength: content.length, newLength: MAX_CONTENT_LENGTH },
-      'Truncando contenido para embedding'
-    );
+    contents.forEach((content, index) => {
+      const tokens = countTokens(content);
+      const exceedsLimits = current.length >= EMBEDDING_BATCH_MAX_ITEMS ||
+        currentTokens + tokens > EMBEDDING_BATCH_MAX_TOKENS;
+
+      if (current.length > 0 && exceedsLimits) {
+        packs.push(current);
+        current = [];
+        currentTokens = 0;
+      }
 
-    return content.slice(0, MAX_CONTENT_LENGTH);
+      current.push(index);
+      currentTokens += tokens;
+    });
+
+    if (current.length > 0) {
+      packs.push(current);
+    }
+
+    return packs;
   }
 
   /**
-   * Utility para esperar entre reintentos
+   * Ejecuta las tareas con un número máximo de ejecuciones simultáneas
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async runWithConcurrency<T>(
+    items: T[],
+    limit: number,
+    worker: (item: T) => Promise<void>
+  ): Promise<void> {
+    let next = 0;
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+      while (next < items.length) {
+        const item = items[next++];
+        await worker(item);
+      }
+    });
+
+    await Promise.all(runners);
   }
 
   /**
-   * Redimensiona un vector al tamaño deseado
-   * Si el vector es más grande, se trunca
-   * Si es más pequeño, se rellena con ceros
+   * Trunca el contenido al máximo permitido de tokens según el tokenizador local
    */
-  private resizeVector(vector: number[], targetSize: number): number[] {
-    if (vector.length === targetSize) {
-      return vector;
+  private truncateContent(content: string): string {
+    const result = truncateToTokens(content, MAX_CONTENT_LENGTH);
+    if (result.truncated) {
+      logger.warn(
+        { originalLength: content.length, newLength: result.text.length, maxTokens: MAX_CONTENT_LENGTH },
+        'Truncando contenido para embedding'
+      );
     }
 
-    if (vector.length > targetSize) {
-      // Si el vector es más grande, truncarlo
-      return vector.slice(0, targetSize);
-    } else {
-      // Si el vector es más pequeño, rellenar con ceros
-      return [...vector, ...new Array(targetSize - vector.length).fill(0)];
-    }
+    return result.text;
+  }
+
+  /**
+   * Utility para esperar entre reintentos
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
   }
 }
 
@@ -0,0 +1,245 @@
+import { logger } from '../config/config.js';
+import { supabaseService } from './supabase.js';
+import { jobQueueService } from './queue.js';
+import { parseWebhookPayload } from './webhook-payload.js';
+
+// Verificar si estamos en modo demo
+const isDemoMode = process.env.DEMO_MODE === 'true';
+
+// Filas leídas por consulta al drenar la tabla
+const PAGE_SIZE = 500;
+
+// Fila de pending_webhooks; payload es el cuerpo del webhook que el trigger no pudo entregar
+interface PendingWebhookRow {
+  id: string | number;
+  payload: Record<string, any> | null;
+  processed: boolean;
+  processed_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Condición PostgREST que filtra por tenant en los dos formatos de payload:
+ * el webhook propio (inmobiliaria_id en la raíz) y el Database Webhook (record / old_record)
+ */
+function tenantFilter(tenantId: string): string {
+  return [
+    `payload->>inmobiliaria_id.eq.${tenantId}`,
+    `payload->record->>inmobiliaria_id.eq.${tenantId}`,
+    `payload->old_record->>inmobiliaria_id.eq.${tenantId}`
+  ].join(',');
+}
+
+export interface ReplayOptions {
+  tenantId?: string;
+  dryRun?: boolean;
+  limit?: number;
+}
+
+export interface ReplayResult {
+  dryRun: boolean;
+  found: number;
+  enqueued: number;
+  invalid: number;
+  failed: number; // Filas que no se pudieron reencolar o marcar; siguen pendientes
+  items: {
+    pendingId: string | number;
+    inmobiliaria_id?: string;
+    project_id?: string;
+    event?: string;
+    jobId?: string;
+    error?: string;
+  }[];
+}
+
+export interface PendingWebhookStats {
+  pending: number;
+  replayed: number;
+  lastReplayAt?: string;
+}
+
+/**
+ * Drena la tabla pending_webhooks, donde el trigger de Supabase guarda los webhooks
+ * que no pudo entregar, encolándolos en la cola de trabajos
+ */
+export class PendingWebhookService {
+  private replayed: Map<string, number> = new Map();
+  private lastReplayAt?: string;
+
+  /**
+   * Reencola los webhooks pendientes y los marca como procesados
+   * Sin limit se drena la tabla completa, paginando por (created_at, id).
+   * Un error en una fila se registra en su item y no interrumpe el resto.
+   * En modo dry-run solo informa lo que se reencolaría
+   */
+  async replay(options: ReplayOptions = {}): Promise<ReplayResult> {
+    const dryRun = options.dryRun ?? false;
+    const result: ReplayResult = { dryRun, found: 0, enqueued: 0, invalid: 0, failed: 0, items: [] };
+
+    if (isDemoMode) {
+      logger.debug('Modo demo: no hay webhooks pendientes que reprocesar');
+      return result;
+    }
+
+    let cursor: { created_at: string; id: string | number } | null = null;
+    while (options.limit === undefined || result.found < options.limit) {
+      const pageSize: number = Math.min(PAGE_SIZE, (options.limit ?? Infinity) - result.found);
+      const rows = await this.getPendingPage(options.tenantId, cursor, pageSize);
+      if (rows.length === 0) {
+        break;
+      }
+
+      result.found += rows.length;
+      cursor = rows[rows.length - 1];
+      for (const row of rows) {
+        await this.replayRow(row, dryRun, result);
+      }
+
+      if (rows.length < pageSize) {
+        break;
+      }
+    }
+
+    if (!dryRun && result.found > 0) {
+      this.lastReplayAt = new Date().toISOString();
+    }
+
+    logger.info({
+      tenantId: options.tenantId,
+      dryRun,
+      found: result.found,
+      enqueued: result.enqueued,
+      invalid: result.invalid,
+      failed: result.failed
+    }, 'Webhooks pendientes reprocesados');
+
+    return result;
+  }
+
+  /**
+   * Obtiene los webhooks pendientes y reprocesados de un tenant
+   */
+  async getStats(tenantId: string): Promise<PendingWebhookStats> {
+    const stats: PendingWebhookStats = {
+      pending: 0,
+      replayed: this.replayed.get(tenantId) || 0,
+      lastReplayAt: this.lastReplayAt
+    };
+
+    if (isDemoMode) {
+      return stats;
+    }
+
+    const { count, error } = await supabaseService.getClient()
+      .from('pending_webhooks')
+      .select('id', { count: 'exact', head: true })
+      .eq('processed', false)
+      .or(tenantFilter(tenantId));
+
+    if (error) {
+      logger.warn({ error, tenantId }, 'Error al contar webhooks pendientes');
+    } else {
+      stats.pending = count || 0;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Obtiene la siguiente página de webhooks pendientes posteriores al cursor
+   */
+  private async getPendingPage(
+    tenantId: string | undefined,
+    after: { created_at: string; id: string | number } | null,
+    limit: number
+  ): Promise<PendingWebhookRow[]> {
+    let query = supabaseService.getClient()
+      .from('pending_webhooks')
+      .select('*')
+      .eq('processed', false)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+
+    if (tenantId) {
+      query = query.or(tenantFilter(tenantId));
+    }
+    if (after) {
+      query = query.or(`created_at.gt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt."${after.id}")`);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error({ error, tenantId }, 'Error al obtener webhooks pendientes');
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Reencola una fila de pending_webhooks y la marca como procesada
+   * Las filas inválidas se marcan sin encolar para no reintentarlas indefinidamente
+   */
+  private async replayRow(row: PendingWebhookRow, dryRun: boolean, result: ReplayResult): Promise<void> {
+    const parsed = parseWebhookPayload(row.payload);
+    const item: ReplayResult['items'][number] = parsed.ok
+      ? {
+        pendingId: row.id,
+        inmobiliaria_id: parsed.webhook.inmobiliaria_id,
+        project_id: parsed.webhook.project_id,
+        event: parsed.webhook.event
+      }
+      : { pendingId: row.id, error: parsed.error };
+    result.items.push(item);
+
+    if (!parsed.ok) {
+      result.invalid += 1;
+    }
+    if (dryRun) {
+      return;
+    }
+
+    try {
+      if (parsed.ok) {
+        const webhook = parsed.webhook;
+        // El evento ya ocurrió hace tiempo: no hace falta el retraso de inserción
+        const job = await jobQueueService.enqueue({
+          inmobiliaria_id: webhook.inmobiliaria_id,
+          project_id: webhook.project_id,
+          event: webhook.event,
+          delayMs: 0,
+          payload: row.payload ?? undefined
+        });
+        item.jobId = job.id;
+      }
+      await this.markProcessed(row.id);
+    } catch (error) {
+      logger.error({ error, pendingId: row.id }, 'Error reprocesando webhook pendiente, queda pendiente');
+      item.error = error instanceof Error ? error.message : 'Error desconocido';
+      result.failed += 1;
+      return;
+    }
+
+    if (parsed.ok) {
+      result.enqueued += 1;
+      const tenantId = parsed.webhook.inmobiliaria_id;
+      this.replayed.set(tenantId, (this.replayed.get(tenantId) || 0) + 1);
+    }
+  }
+
+  private async markProcessed(id: string | number): Promise<void> {
+    const { error } = await supabaseService.getClient()
+      .from('pending_webhooks')
+      .update({ processed: true, processed_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      logger.error({ error, pendingId: id }, 'Error al marcar webhook pendiente como procesado');
+      throw error;
+    }
+  }
+}
+
+// Exportar una instancia única del servicio
+export const pendingWebhookService = new PendingWebhookService();
@@ -0,0 +1,23 @@
+import { config } from '../config/config.js';
+
+// Precio en USD por millón de tokens de los modelos de embedding conocidos
+// Los modelos no listados (locales, hash) se consideran sin costo
+export const MODEL_PRICES: Record<string, number> = {
+  'text-embedding-3-small': 0.02,
+  'text-embedding-3-large': 0.13,
+  'text-embedding-ada-002': 0.10,
+};
+
+/**
+ * Precio por millón de tokens de un modelo; EMBEDDING_MODEL_PRICES tiene prioridad
+ */
+export function getModelPrice(model: string): number {
+  return config.usage.modelPrices[model] ?? MODEL_PRICES[model] ?? 0;
+}
+
+/**
+ * Estima el costo en USD de procesar una cantidad de tokens con un modelo
+ */
+export function estimateEmbeddingCost(model: string, tokens: number): number {
+  return (getModelPrice(model) * tokens) / 1_000_000;
+}
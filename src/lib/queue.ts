@@ -0,0 +1,345 @@
+import { config, logger, MAX_RETRY_DELAY } from '../config/config.js';
+import { monitorService } from './monitor.js';
+import { JobStore, MemoryJobStore, SupabaseJobStore } from './job-store.js';
+import { deadLetterService, FailedProjectFilter } from './dead-letter.js';
+import { parseWebhookPayload } from './webhook-payload.js';
+import { BudgetExceededError } from './budget.js';
+import { EnqueueJobInput, SyncJob } from '../types/job.js';
+
+/**
+ * Evento resultante al agrupar dos cambios del mismo proyecto
+ * Un INSERT seguido de UPDATE sigue siendo INSERT (conserva el retraso de consistencia);
+ * en cualquier otro caso prevalece el último evento
+ */
+function mergeEvents(previous: SyncJob['event'], next: SyncJob['event']): SyncJob['event'] {
+  return previous === 'INSERT' && next === 'UPDATE' ? 'INSERT' : next;
+}
+
+export class JobQueueService {
+  private isRunning: boolean = false;
+  private activeJobs: number = 0;
+  private activeProjects: Set<string> = new Set();
+  private timer?: NodeJS.Timeout;
+
+  constructor(private store: JobStore) {}
+
+  /**
+   * Encola un trabajo de sincronización para un proyecto
+   * Las inserciones se retrasan config.queue.insertDelay para garantizar consistencia.
+   * Si ya hay un trabajo pendiente para el mismo proyecto, se agrupa con él: se conserva
+   * el último payload y se pospone hasta que transcurra config.queue.coalesceWindow sin cambios
+   */
+  async enqueue(input: EnqueueJobInput): Promise<SyncJob> {
+    const baseDelay = input.delayMs ?? (input.event === 'INSERT' ? config.queue.insertDelay : 0);
+    const delayMs = Math.max(baseDelay, config.queue.coalesceWindow);
+
+    const coalesced = await this.coalesce(input, delayMs);
+    if (coalesced) {
+      return coalesced;
+    }
+
+    const job = await this.store.enqueue({ ...input, delayMs }, config.queue.maxAttempts);
+
+    logger.info({
+      jobId: job.id,
+      tenantId: job.inmobiliaria_id,
+      projectId: job.project_id,
+      event: job.event,
+      availableAt: job.available_at
+    }, 'Trabajo encolado');
+
+    return job;
+  }
+
+  /**
+   * Agrupa el cambio con el trabajo pendiente del proyecto, si existe
+   * Retorna null si no hay trabajo pendiente o si fue reclamado mientras tanto
+   */
+  private async coalesce(input: EnqueueJobInput, delayMs: number): Promise<SyncJob | null> {
+    const pending = await this.store.findPending(input.inmobiliaria_id, input.project_id);
+    if (!pending) {
+      return null;
+    }
+
+    // Nunca se adelanta el trabajo pendiente: un INSERT agrupado conserva su retraso de consistencia
+    const availableAt = Math.max(new Date(pending.available_at).getTime(), Date.now() + delayMs);
+    const changes: Partial<SyncJob> = {
+      event: mergeEvents(pending.event, input.event),
+      priority: Math.max(pending.priority, input.priority ?? 0),
+      available_at: new Date(availableAt).toISOString(),
+      payload: input.payload ?? null,
+      force: !!pending.force || !!input.force
+    };
+
+    if (!(await this.store.updatePending(pending.id, changes))) {
+      return null;
+    }
+
+    logger.info({
+      jobId: pending.id,
+      tenantId: pending.inmobiliaria_id,
+      projectId: pending.project_id,
+      event: changes.event,
+      availableAt: changes.available_at
+    }, 'Cambio agrupado con trabajo pendiente');
+
+    return { ...pending, ...changes };
+  }
+
+  /**
+   * Obtiene un trabajo por su ID
+   */
+  async getJob(id: string): Promise<SyncJob | null> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Trabajo pendiente de un proyecto, si lo hay
+   */
+  async getPendingJob(tenantId: string, projectId: string): Promise<SyncJob | null> {
+    return this.store.findPending(tenantId, projectId);
+  }
+
+  /**
+   * Número de trabajos de un tenant pospuestos por presupuesto excedido
+   */
+  async countParkedJobs(tenantId: string): Promise<number> {
+    return this.store.countParked(tenantId);
+  }
+
+  /**
+   * Libera los trabajos pospuestos de un tenant (p.ej. tras ampliar su presupuesto)
+   * Si el presupuesto sigue excedido, los trabajos vuelven a posponerse al procesarse
+   */
+  async releaseParkedJobs(tenantId: string): Promise<number> {
+    const released = await this.store.releaseParked(tenantId);
+    if (released > 0) {
+      logger.info({ tenantId, released }, 'Trabajos pospuestos por presupuesto liberados');
+    }
+    return released;
+  }
+
+  /**
+   * Vuelve a encolar los proyectos registrados en dead-letter
+   * Las entradas se eliminan del dead-letter una vez encoladas
+   */
+  async retryFailedProjects(filter: FailedProjectFilter): Promise<SyncJob[]> {
+    const failed = await deadLetterService.list(filter);
+    const jobs: SyncJob[] = [];
+
+    for (const entry of failed) {
+      const job = await this.enqueue({
+        inmobiliaria_id: entry.inmobiliaria_id,
+        project_id: entry.project_id,
+        event: entry.event,
+        delayMs: 0,
+        payload: entry.payload ?? undefined
+      });
+      await deadLetterService.resolve(entry.inmobiliaria_id, [entry.project_id]);
+      jobs.push(job);
+    }
+
+    logger.info({ filter, retried: jobs.length }, 'Proyectos fallidos reencolados');
+    return jobs;
+  }
+
+  /**
+   * Inicia el worker que drena la cola periódicamente
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('Worker de la cola ya está ejecutándose');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info({ store: config.queue.store, pollInterval: config.queue.pollInterval }, 'Iniciando worker de la cola');
+    this.scheduleNextPoll(0);
+  }
+
+  /**
+   * Detiene el worker (los trabajos en curso terminan normalmente)
+   */
+  stop(): void {
+    this.isRunning = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    logger.info('Deteniendo worker de la cola');
+  }
+
+  private scheduleNextPoll(delayMs: number): void {
+    if (!this.isRunning) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.poll()
+        .catch(error => logger.error({ error }, 'Error drenando la cola'))
+        .finally(() => this.scheduleNextPoll(config.queue.pollInterval));
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    const available = config.monitor.maxConcurrent - this.activeJobs;
+    if (available <= 0) {
+      return;
+    }
+
+    const jobs = await this.store.claim(available, config.queue.visibilityTimeout);
+    for (const job of jobs) {
+      const key = `${job.inmobiliaria_id}:${job.project_id}`;
+
+      // El store no reclama dos trabajos del mismo proyecto, pero un trabajo cuyo
+      // timeout de visibilidad expiró puede seguir ejecutándose en este proceso
+      if (this.activeProjects.has(key)) {
+        await this.deferJob(job);
+        continue;
+      }
+
+      this.activeJobs += 1;
+      this.activeProjects.add(key);
+      this.runJob(job).finally(() => {
+        this.activeJobs -= 1;
+        this.activeProjects.delete(key);
+      });
+    }
+  }
+
+  /**
+   * Devuelve a la cola un trabajo cuyo proyecto ya se está procesando
+   */
+  private async deferJob(job: SyncJob): Promise<void> {
+    try {
+      await this.store.update(job.id, {
+        status: 'PENDING',
+        attempts: Math.max(job.attempts - 1, 0),
+        locked_until: null,
+        available_at: new Date(Date.now() + config.queue.coalesceWindow).toISOString()
+      });
+      logger.debug({ jobId: job.id, projectId: job.project_id }, 'Proyecto en curso, trabajo pospuesto');
+    } catch (error) {
+      logger.error({ error, jobId: job.id }, 'Error al posponer trabajo');
+    }
+  }
+
+  private async runJob(job: SyncJob): Promise<void> {
+    const startTime = Date.now();
+    logger.info({
+      jobId: job.id,
+      tenantId: job.inmobiliaria_id,
+      projectId: job.project_id,
+      event: job.event,
+      attempt: job.attempts
+    }, 'Procesando trabajo de la cola');
+
+    try {
+      // Si el payload original incluía la fila (Supabase Database Webhooks) se usa directamente
+      const parsed = job.payload ? parseWebhookPayload(job.payload) : undefined;
+      const record = parsed?.ok && parsed.webhook.project_id === job.project_id
+        ? parsed.webhook.change?.project
+        : undefined;
+
+      const result = await monitorService.processProject(
+        job.inmobiliaria_id,
+        job.project_id,
+        job.event,
+        record,
+        !!job.force
+      );
+
+      if (result === 'NOT_FOUND') {
+        // Posible condición de carrera en INSERT: reintentar más tarde
+        throw new Error(`Proyecto ${job.project_id} no encontrado`);
+      }
+
+      await this.store.update(job.id, {
+        status: 'COMPLETED',
+        result,
+        locked_until: null,
+        last_error: null,
+        parked: false
+      });
+
+      logger.info({
+        jobId: job.id,
+        result,
+        processingTimeMs: Date.now() - startTime
+      }, 'Trabajo completado');
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        await this.parkJob(job, error);
+        return;
+      }
+      await this.handleFailure(job, error);
+    }
+  }
+
+  /**
+   * Pospone un trabajo hasta que se restablezca el presupuesto del tenant
+   * El intento no cuenta para max_attempts: el trabajo nunca termina en dead-letter por presupuesto
+   */
+  private async parkJob(job: SyncJob, error: BudgetExceededError): Promise<void> {
+    try {
+      await this.store.update(job.id, {
+        status: 'PENDING',
+        attempts: Math.max(job.attempts - 1, 0),
+        locked_until: null,
+        available_at: error.retryAt,
+        last_error: error.message,
+        parked: true
+      });
+      logger.warn({
+        jobId: job.id,
+        tenantId: job.inmobiliaria_id,
+        projectId: job.project_id,
+        retryAt: error.retryAt
+      }, 'Trabajo pospuesto por presupuesto excedido');
+    } catch (updateError) {
+      // Si no se puede actualizar, el timeout de visibilidad lo liberará
+      logger.error({ updateError, jobId: job.id }, 'Error al posponer trabajo por presupuesto');
+    }
+  }
+
+  private async handleFailure(job: SyncJob, error: unknown): Promise<void> {
+    const errorMessage = error instanceof Error ? error.message : 'Error desconocido';
+
+    try {
+      if (job.attempts >= job.max_attempts) {
+        await this.store.update(job.id, {
+          status: 'FAILED',
+          locked_until: null,
+          last_error: errorMessage
+        });
+        logger.error({ jobId: job.id, attempts: job.attempts, errorMessage }, 'Trabajo fallido tras agotar reintentos');
+        await deadLetterService.record({
+          inmobiliaria_id: job.inmobiliaria_id,
+          project_id: job.project_id,
+          event: job.event,
+          error,
+          attempts: job.attempts,
+          payload: job.payload
+        });
+        return;
+      }
+
+      // Backoff exponencial entre reintentos
+      const delayMs = Math.min(Math.pow(2, job.attempts) * 1000, MAX_RETRY_DELAY);
+      await this.store.update(job.id, {
+        status: 'PENDING',
+        locked_until: null,
+        available_at: new Date(Date.now() + delayMs).toISOString(),
+        last_error: errorMessage
+      });
+      logger.warn({ jobId: job.id, attempts: job.attempts, delayMs, errorMessage }, 'Trabajo reprogramado');
+    } catch (updateError) {
+      // Si no se puede actualizar, el timeout de visibilidad lo liberará
+      logger.error({ updateError, jobId: job.id }, 'Error al registrar fallo del trabajo');
+    }
+  }
+}
+
+// Exportar una instancia única del servicio
+export const jobQueueService = new JobQueueService(
+  config.queue.store === 'memory' ? new MemoryJobStore() : new SupabaseJobStore()
+);
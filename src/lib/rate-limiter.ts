@@ -0,0 +1,184 @@
+import { config, logger, MAX_RETRY_DELAY } from '../config/config.js';
+
+// Espera por defecto cuando el proveedor responde 429 sin cabecera Retry-After
+const DEFAULT_RETRY_AFTER_MS = 5000;
+
+export interface RateLimitState {
+  tenantId: string;
+  tokens: number;
+  capacity: number;
+  refillPerSecond: number;
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  blockedUntil?: string;
+}
+
+interface TenantBucket {
+  tokens: number;
+  lastRefill: number;
+  active: number;
+  waiters: Array<() => void>;
+  blockedUntil: number;
+}
+
+/**
+ * Obtiene el tiempo de espera indicado por una respuesta 429 del proveedor
+ * Retorna undefined si el error no corresponde a un límite de tasa
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+  if (!error || error.status !== 429) {
+    return undefined;
+  }
+
+  const headers = error.headers || {};
+  const retryAfterMs = Number(headers['retry-after-ms']);
+  if (!isNaN(retryAfterMs) && retryAfterMs > 0) {
+    return Math.min(retryAfterMs, MAX_RETRY_DELAY);
+  }
+
+  const retryAfter = headers['retry-after'];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = !isNaN(seconds)
+      ? seconds * 1000
+      : new Date(retryAfter).getTime() - Date.now(); // Formato fecha HTTP
+    if (!isNaN(delay) && delay > 0) {
+      return Math.min(delay, MAX_RETRY_DELAY);
+    }
+  }
+
+  return DEFAULT_RETRY_AFTER_MS;
+}
+
+/**
+ * Limitador de tasa tipo token bucket por tenant (inmobiliaria_id)
+ * Cada tenant tiene su propio bucket de config.rateLimit.requestsPerMinute tokens
+ * y un máximo de config.rateLimit.concurrent operaciones simultáneas, de modo que
+ * un tenant con mucha actividad no bloquea a los demás
+ */
+export class RateLimiter {
+  private buckets: Map<string, TenantBucket> = new Map();
+  private capacity: number;
+  private refillPerMs: number;
+  private maxConcurrent: number;
+
+  constructor(
+    requestsPerMinute = config.rateLimit.requestsPerMinute,
+    concurrent = config.rateLimit.concurrent
+  ) {
+    this.capacity = requestsPerMinute;
+    this.refillPerMs = requestsPerMinute / 60000;
+    this.maxConcurrent = concurrent;
+  }
+
+  /**
+   * Ejecuta una tarea respetando el límite de tasa y de concurrencia del tenant
+   * Si la tarea falla con un 429, el bucket del tenant se pausa según Retry-After
+   */
+  async schedule<T>(tenantId: string, task: () => Promise<T>): Promise<T> {
+    await this.acquire(tenantId);
+    try {
+      return await task();
+    } catch (error) {
+      const retryAfterMs = getRetryAfterMs(error);
+      if (retryAfterMs !== undefined) {
+        this.penalize(tenantId, retryAfterMs);
+      }
+      throw error;
+    } finally {
+      this.release(tenantId);
+    }
+  }
+
+  /**
+   * Pausa las operaciones de un tenant durante el tiempo indicado
+   */
+  penalize(tenantId: string, delayMs: number): void {
+    const bucket = this.getBucket(tenantId);
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + delayMs);
+    logger.warn({ tenantId, delayMs }, 'Límite de tasa alcanzado, pausando operaciones del tenant');
+  }
+
+  /**
+   * Obtiene el estado actual del bucket de un tenant
+   */
+  getState(tenantId: string): RateLimitState {
+    const bucket = this.getBucket(tenantId);
+    this.refill(bucket);
+
+    return {
+      tenantId,
+      tokens: Math.floor(bucket.tokens),
+      capacity: this.capacity,
+      refillPerSecond: this.refillPerMs * 1000,
+      active: bucket.active,
+      queued: bucket.waiters.length,
+      maxConcurrent: this.maxConcurrent,
+      blockedUntil: bucket.blockedUntil > Date.now()
+        ? new Date(bucket.blockedUntil).toISOString()
+        : undefined
+    };
+  }
+
+  private async acquire(tenantId: string): Promise<void> {
+    const bucket = this.getBucket(tenantId);
+
+    // Esperar un slot de concurrencia
+    while (bucket.active >= this.maxConcurrent) {
+      await new Promise<void>(resolve => bucket.waiters.push(resolve));
+    }
+    bucket.active += 1;
+
+    // Esperar un token disponible (y a que termine cualquier pausa por 429)
+    for (;;) {
+      this.refill(bucket);
+      const now = Date.now();
+
+      if (bucket.blockedUntil > now) {
+        await this.sleep(bucket.blockedUntil - now);
+        continue;
+      }
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return;
+      }
+
+      await this.sleep(Math.ceil((1 - bucket.tokens) / this.refillPerMs));
+    }
+  }
+
+  private release(tenantId: string): void {
+    const bucket = this.getBucket(tenantId);
+    bucket.active = Math.max(0, bucket.active - 1);
+    bucket.waiters.shift()?.();
+  }
+
+  private refill(bucket: TenantBucket): void {
+    const now = Date.now();
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.lastRefill) * this.refillPerMs);
+    bucket.lastRefill = now;
+  }
+
+  private getBucket(tenantId: string): TenantBucket {
+    if (!this.buckets.has(tenantId)) {
+      this.buckets.set(tenantId, {
+        tokens: this.capacity,
+        lastRefill: Date.now(),
+        active: 0,
+        waiters: [],
+        blockedUntil: 0
+      });
+    }
+
+    return this.buckets.get(tenantId)!;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+// Exportar una instancia única del limitador
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,214 @@
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { logger, MAX_RETRY_DELAY } from '../config/config.js';
+import { supabaseService } from './supabase.js';
+import { monitorService } from './monitor.js';
+import { jobQueueService } from './queue.js';
+import { Project } from '../types/project.js';
+
+// Verificar si estamos en modo demo
+const isDemoMode = process.env.DEMO_MODE === 'true';
+
+// Espera tras una conexión antes de recuperar cambios, para agrupar reconexiones seguidas
+const CATCH_UP_DEBOUNCE_MS = 5000;
+
+/**
+ * Fuente de cambios basada en Supabase Realtime (postgres_changes sobre proyectos)
+ * Los eventos se encolan igual que los webhooks. Tras cada (re)conexión se encolan
+ * los proyectos modificados desde la marca de agua de cada tenant (o desde la
+ * desconexión) para recuperar los cambios ocurridos mientras el canal estaba desconectado
+ */
+export class RealtimeService {
+  private channel?: RealtimeChannel;
+  private isRunning: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private catchUpTimer?: NodeJS.Timeout;
+  private catchUpInProgress: boolean = false;
+  private catchUpPending: boolean = false;
+  private disconnectedAt?: Date; // Primera desconexión aún no recuperada
+
+  /**
+   * Inicia la suscripción a los cambios de la tabla proyectos
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('Suscripción Realtime ya está activa');
+      return;
+    }
+
+    this.isRunning = true;
+
+    if (isDemoMode) {
+      logger.info('Modo demo: suscripción Realtime simulada');
+      return;
+    }
+
+    this.subscribe();
+  }
+
+  /**
+   * Detiene la suscripción y cancela cualquier reconexión pendiente
+   */
+  async stop(): Promise<void> {
+    this.isRunning = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    if (this.catchUpTimer) {
+      clearTimeout(this.catchUpTimer);
+      this.catchUpTimer = undefined;
+    }
+    await this.removeChannel();
+    logger.info('Suscripción Realtime detenida');
+  }
+
+  private subscribe(): void {
+    const channel = supabaseService.getClient()
+      .channel('proyectos-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'proyectos' },
+        (payload: RealtimePostgresChangesPayload<Project>) => {
+          this.handleChange(payload).catch(error =>
+            logger.error({ error }, 'Error encolando cambio recibido por Realtime')
+          );
+        }
+      );
+
+    this.channel = channel;
+    channel.subscribe((status, error) => {
+      if (status === 'SUBSCRIBED') {
+        logger.info({ reconnectAttempts: this.reconnectAttempts }, 'Suscripción Realtime activa');
+        this.reconnectAttempts = 0;
+        this.scheduleCatchUp();
+        return;
+      }
+
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        logger.warn({ status, error }, 'Canal Realtime desconectado');
+        if (channel === this.channel) {
+          // Sin canal no se recupera nada: se espera a la próxima conexión
+          this.disconnectedAt ??= new Date();
+          this.catchUpPending = false;
+          if (this.catchUpTimer) {
+            clearTimeout(this.catchUpTimer);
+            this.catchUpTimer = undefined;
+          }
+        }
+        this.scheduleReconnect(channel);
+      }
+    });
+  }
+
+  private async handleChange(payload: RealtimePostgresChangesPayload<Project>): Promise<void> {
+    const record = payload.eventType === 'DELETE' ? payload.old : payload.new;
+    if (!record?.id || !record?.inmobiliaria_id) {
+      // En DELETE, old solo incluye la clave primaria salvo con REPLICA IDENTITY FULL
+      logger.warn({ eventType: payload.eventType }, 'Cambio Realtime sin id o inmobiliaria_id, ignorado');
+      return;
+    }
+
+    // Se encola con el formato de Database Webhooks para reutilizar la fila recibida
+    await jobQueueService.enqueue({
+      inmobiliaria_id: record.inmobiliaria_id,
+      project_id: record.id,
+      event: payload.eventType,
+      delayMs: 0,
+      payload: {
+        type: payload.eventType,
+        table: payload.table,
+        schema: payload.schema,
+        record: payload.eventType === 'DELETE' ? null : payload.new,
+        old_record: payload.old,
+        commit_timestamp: payload.commit_timestamp
+      }
+    });
+  }
+
+  private scheduleCatchUp(): void {
+    if (this.catchUpTimer) {
+      clearTimeout(this.catchUpTimer);
+    }
+    this.catchUpTimer = setTimeout(() => {
+      this.catchUpTimer = undefined;
+      this.catchUp();
+    }, CATCH_UP_DEBOUNCE_MS);
+  }
+
+  /**
+   * Encola los cambios perdidos; pasan por la coalescencia, el límite de tasa y el presupuesto
+   * del tenant como cualquier otro trabajo. Una conexión durante la recuperación la repite al terminar
+   */
+  private catchUp(): void {
+    if (this.catchUpInProgress) {
+      this.catchUpPending = true;
+      return;
+    }
+
+    const disconnectedAt = this.disconnectedAt;
+    this.disconnectedAt = undefined;
+    this.catchUpInProgress = true;
+    monitorService.catchUp(
+      async (tenantId, project) => {
+        await jobQueueService.enqueue({
+          inmobiliaria_id: tenantId,
+          project_id: project.id,
+          event: 'UPDATE',
+          delayMs: 0
+        });
+      },
+      disconnectedAt
+    )
+      .catch(error => {
+        logger.error({ error }, 'Error en recuperación de cambios tras conexión Realtime');
+        // Se conserva la desconexión más antigua para la próxima recuperación
+        if (disconnectedAt && (!this.disconnectedAt || disconnectedAt < this.disconnectedAt)) {
+          this.disconnectedAt = disconnectedAt;
+        }
+      })
+      .finally(() => {
+        this.catchUpInProgress = false;
+        if (this.catchUpPending && this.isRunning) {
+          this.catchUpPending = false;
+          this.catchUp();
+        }
+      });
+  }
+
+  private scheduleReconnect(channel: RealtimeChannel): void {
+    // Ignorar notificaciones de canales antiguos o si ya hay una reconexión programada
+    if (!this.isRunning || channel !== this.channel || this.reconnectTimer) {
+      return;
+    }
+
+    const delayMs = Math.min(Math.pow(2, this.reconnectAttempts) * 1000, MAX_RETRY_DELAY);
+    this.reconnectAttempts += 1;
+    logger.info({ delayMs, attempt: this.reconnectAttempts }, 'Reconectando canal Realtime');
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined;
+      await this.removeChannel();
+      if (this.isRunning) {
+        this.subscribe();
+      }
+    }, delayMs);
+  }
+
+  private async removeChannel(): Promise<void> {
+    if (!this.channel) {
+      return;
+    }
+
+    const channel = this.channel;
+    this.channel = undefined;
+    try {
+      await supabaseService.getClient().removeChannel(channel);
+    } catch (error) {
+      logger.warn({ error }, 'Error eliminando canal Realtime');
+    }
+  }
+}
+
+// Exportar una instancia única del servicio
+export const realtimeService = new RealtimeService();
@@ -0,0 +1,139 @@
+import { config, logger } from '../config/config.js';
+import { supabaseService } from './supabase.js';
+import { openaiService } from './openai.js';
+import { VectorSearchConfig, VectorSearchResult } from '../types/vector.js';
+
+// Verificar si estamos en modo demo
+const isDemoMode = process.env.DEMO_MODE === 'true';
+
+// Configuración de búsqueda por defecto
+export const DEFAULT_SEARCH_CONFIG: VectorSearchConfig = {
+  similarityThreshold: 0.7,
+  maxResults: 10,
+  includeMetadata: false,
+  filterByTenant: true,
+};
+
+// Fragmentos solicitados por cada resultado esperado en modo fragmentado
+const CHUNK_OVERFETCH_FACTOR = 5;
+
+export class SearchService {
+  /**
+   * Busca proyectos semánticamente similares a una consulta en texto libre
+   * Genera el embedding de la consulta y ejecuta la búsqueda por similitud en proyecto_vector
+   */
+  async searchProjects(
+    query: string,
+    tenantId: string | undefined,
+    options: Partial<VectorSearchConfig> = {}
+  ): Promise<VectorSearchResult[]> {
+    const searchConfig: VectorSearchConfig = {
+      similarityThreshold: options.similarityThreshold ?? DEFAULT_SEARCH_CONFIG.similarityThreshold,
+      maxResults: options.maxResults ?? DEFAULT_SEARCH_CONFIG.maxResults,
+      includeMetadata: options.includeMetadata ?? DEFAULT_SEARCH_CONFIG.includeMetadata,
+      filterByTenant: options.filterByTenant ?? DEFAULT_SEARCH_CONFIG.filterByTenant,
+    };
+
+    if (searchConfig.filterByTenant && !tenantId) {
+      throw new Error('Se requiere tenant_id cuando la búsqueda está filtrada por tenant');
+    }
+
+    logger.info({ tenantId, searchConfig, queryLength: query.length }, 'Iniciando búsqueda semántica');
+
+    // En modo demo no hay tabla de vectores que consultar: se informa en lugar de simular una búsqueda vacía
+    if (isDemoMode) {
+      throw new Error('La búsqueda semántica no está disponible en modo demo');
+    }
+
+    const startTime = Date.now();
+    // Sin filtro por tenant la consulta se genera con el proveedor del despliegue
+    const embedding = await openaiService.generateEmbedding(
+      query,
+      searchConfig.filterByTenant ? tenantId : undefined
+    );
+
+    const searchOptions = {
+      tenantId: searchConfig.filterByTenant ? tenantId : undefined,
+      threshold: searchConfig.similarityThreshold,
+      limit: searchConfig.maxResults,
+    };
+    const results = config.chunking.enabled
+      ? await this.searchChunks(embedding, searchOptions, searchConfig.includeMetadata)
+      : await supabaseService.searchVectors(embedding, searchOptions);
+
+    // Ordenar por puntuación descendente y aplicar los límites de la configuración
+    const ranked = results
+      .filter(result => result.score >= searchConfig.similarityThreshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, searchConfig.maxResults)
+      .map(result => searchConfig.includeMetadata
+        ? result
+        : { ...result, metadata: undefined });
+
+    logger.info({
+      tenantId,
+      resultCount: ranked.length,
+      processingTimeMs: Date.now() - startTime
+    }, 'Búsqueda semántica completada');
+
+    return ranked;
+  }
+
+  /**
+   * Busca por fragmentos y agrega los resultados por proyecto
+   * La puntuación del proyecto es la del fragmento más similar
+   */
+  private async searchChunks(
+    embedding: number[],
+    options: { tenantId?: string; threshold: number; limit: number },
+    includeMetadata: boolean
+  ): Promise<VectorSearchResult[]> {
+    // Se piden más fragmentos que resultados ya que varios pueden ser del mismo proyecto
+    const chunks = await supabaseService.searchVectorChunks(embedding, {
+      ...options,
+      limit: options.limit * CHUNK_OVERFETCH_FACTOR,
+    });
+
+    const byProject = new Map<string, VectorSearchResult>();
+    for (const chunk of chunks) {
+      const key = `${chunk.inmobiliaria_id}:${chunk.project_id}`;
+      const current = byProject.get(key);
+      if (!current) {
+        byProject.set(key, {
+          project_id: chunk.project_id,
+          inmobiliaria_id: chunk.inmobiliaria_id,
+          score: chunk.score,
+          content: chunk.content,
+          matchedChunks: 1,
+        });
+        continue;
+      }
+
+      current.matchedChunks = (current.matchedChunks ?? 0) + 1;
+      if (chunk.score > current.score) {
+        current.score = chunk.score;
+        current.content = chunk.content;
+      }
+    }
+
+    const results = [...byProject.values()];
+    if (includeMetadata) {
+      const tenants = new Set(results.map(result => result.inmobiliaria_id));
+      for (const tenant of tenants) {
+        const tenantResults = results.filter(result => result.inmobiliaria_id === tenant);
+        const metadata = await supabaseService.getVectorMetadata(
+          tenant,
+          tenantResults.map(result => result.project_id)
+        );
+        tenantResults.forEach(result => {
+          result.metadata = metadata.get(result.project_id);
+        });
+      }
+    }
+
+    return results;
+  }
+}
+
+// Exportar una instancia única del servicio
+export const searchService = new SearchService();
@@ -0,0 +1,60 @@
+import { config, logger } from '../config/config.js';
+import { supabaseService } from './supabase.js';
+import { TenantSyncState } from '../types/vector.js';
+
+/**
+ * Almacenamiento del estado de sincronización por tenant
+ */
+export interface SyncStateStore {
+  loadAll(): Promise<TenantSyncState[]>;
+  save(state: TenantSyncState): Promise<void>;
+}
+
+/**
+ * Estado respaldado por la tabla vector_sync_state de Supabase
+ */
+export class SupabaseSyncStateStore implements SyncStateStore {
+  async loadAll(): Promise<TenantSyncState[]> {
+    const { data, error } = await supabaseService.getClient()
+      .from('vector_sync_state')
+      .select('*');
+
+    if (error) {
+      logger.error({ error }, 'Error al cargar estado de sincronización');
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async save(state: TenantSyncState): Promise<void> {
+    const { error } = await supabaseService.getClient()
+      .from('vector_sync_state')
+      .upsert(state, { onConflict: 'inmobiliaria_id' });
+
+    if (error) {
+      logger.error({ error, tenantId: state.inmobiliaria_id }, 'Error al guardar estado de sincronización');
+      throw error;
+    }
+  }
+}
+
+/**
+ * Estado en memoria, utilizado en modo demo (no sobrevive a reinicios)
+ */
+export class MemorySyncStateStore implements SyncStateStore {
+  private states: Map<string, TenantSyncState> = new Map();
+
+  async loadAll(): Promise<TenantSyncState[]> {
+    return [...this.states.values()].map(state => structuredClone(state));
+  }
+
+  async save(state: TenantSyncState): Promise<void> {
+    this.states.set(state.inmobiliaria_id, structuredClone(state));
+  }
+}
+
+// Exportar una instancia única del almacenamiento configurado
+export const syncStateStore: SyncStateStore = config.monitor.stateStore === 'memory'
+  ? new MemorySyncStateStore()
+  : new SupabaseSyncStateStore();
@@ -1,7 +1,7 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { config, logger } from '../config/config.js';
 import { Project } from '../types/project.js';
-import { VectorData } from '../types/vector.js';
+import { VectorAuditRow, VectorChunk, VectorData, VectorSearchResult } from '../types/vector.js';
 
 export class SupabaseService {
   private client: SupabaseClient;
@@ -27,18 +27,31 @@ export class SupabaseService {
   }
 
   /**
-   * Obtiene los proyectos modificados desde una fecha específica para un tenant
+   * Obtiene una página de proyectos modificados desde una fecha específica para un tenant
+   * Se ordena por (updated_at, id) y se pagina por cursor sobre ese par: PostgREST limita
+   * el número de filas por respuesta, así que sin orden ni cursor se perderían cambios
    */
   async getModifiedProjects(
     tenantId: string,
-    since: Date
+    since: Date,
+    options: { after?: { updated_at: string; id: string } | null; limit: number }
   ): Promise<Project[]> {
     try {
-      const { data, error } = await this.client
+      let query = this.client
         .from('proyectos')
         .select('*')
         .eq('inmobiliaria_id', tenantId)
-        .gte('updated_at', since.toISOString());
+        .gte('updated_at', since.toISOString())
+        .order('updated_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(options.limit);
+
+      if (options.after) {
+        const { updated_at, id } = options.after;
+        query = query.or(`updated_at.gt."${updated_at}",and(updated_at.eq."${updated_at}",id.gt."${id}")`);
+      }
+
+      const { data, error } = await query;
 
       if (error) {
         logger.error({ error, tenantId }, 'Error al obtener proyectos modificados');
@@ -52,6 +65,104 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Obtiene una página de proyectos ordenados por id, de un tenant o de todos
+   * Se pagina por cursor (id mayor que afterId) para poder reanudar recorridos largos
+   */
+  async getProjectsPage(options: {
+    tenantId?: string | null;
+    afterId?: string | null;
+    updatedSince?: Date;
+    limit: number;
+  }): Promise<Project[]> {
+    try {
+      let query = this.client
+        .from('proyectos')
+        .select('*')
+        .order('id', { ascending: true })
+        .limit(options.limit);
+
+      if (options.tenantId) {
+        query = query.eq('inmobiliaria_id', options.tenantId);
+      }
+      if (options.afterId) {
+        query = query.gt('id', options.afterId);
+      }
+      if (options.updatedSince) {
+        query = query.gte('updated_at', options.updatedSince.toISOString());
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        logger.error({ error, options }, 'Error al obtener página de proyectos');
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      logger.error({ error, tenantId: options.tenantId }, 'Error en getProjectsPage');
+      throw error;
+    }
+  }
+
+  /**
+   * Obtiene varios proyectos por su ID, opcionalmente solo los de un tenant
+   */
+  async getProjectsByIds(projectIds: string[], tenantId?: string): Promise<Project[]> {
+    if (projectIds.length === 0) {
+      return [];
+    }
+
+    try {
+      let query = this.client
+        .from('proyectos')
+        .select('*')
+        .in('id', projectIds);
+
+      if (tenantId) {
+        query = query.eq('inmobiliaria_id', tenantId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        logger.error({ error, count: projectIds.length }, 'Error al obtener proyectos por ID');
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      logger.error({ error }, 'Error en getProjectsByIds');
+      throw error;
+    }
+  }
+
+  /**
+   * Cuenta los proyectos de un tenant (o de todos)
+   */
+  async countProjects(tenantId?: string | null): Promise<number> {
+    try {
+      let query = this.client
+        .from('proyectos')
+        .select('id', { count: 'exact', head: true });
+
+      if (tenantId) {
+        query = query.eq('inmobiliaria_id', tenantId);
+      }
+
+      const { count, error } = await query;
+      if (error) {
+        logger.error({ error, tenantId }, 'Error al contar proyectos');
+        throw error;
+      }
+
+      return count || 0;
+    } catch (error) {
+      logger.error({ error, tenantId }, 'Error en countProjects');
+      throw error;
+    }
+  }
+
   /**
    * Obtiene un proyecto específico por su ID
    * Implementa reintentos para manejar condiciones de carrera con inserciones nuevas
@@ -276,7 +387,7 @@ export class SupabaseService {
       }, 'Iniciando upsert en proyecto_vector');
       
       // Verificar que el proyecto existe (validar la FK)
-      const projectExists = await this.checkProjectExists(vectorData.project_id);
+      const projectExists = await this.checkProjectExists(vectorData.project_id, vectorData.inmobiliaria_id);
       if (!projectExists) {
         logger.error({
           project_id: vectorData.project_id,
@@ -362,6 +473,75 @@ export class SupabaseService {
     }
   }
   
+  /**
+   * Elimina el vector de un proyecto para un tenant
+   * Retorna true si se eliminó alguna fila
+   */
+  async deleteVector(tenantId: string, projectId: string): Promise<boolean> {
+    try {
+      const { data, error } = await this.client
+        .from('proyecto_vector')
+        .delete()
+        .eq('inmobiliaria_id', tenantId)
+        .eq('project_id', projectId)
+        .select('id');
+
+      if (error) {
+        logger.error({ error, tenantId, projectId }, 'Error al eliminar vector');
+        throw error;
+      }
+
+      if (config.chunking.enabled) {
+        await this.replaceVectorChunks(tenantId, projectId, []);
+      }
+
+      const deleted = !!(data && data.length > 0);
+      logger.info({ tenantId, projectId, deleted }, 'Eliminación de vector completada');
+      return deleted;
+    } catch (error) {
+      logger.error({ error, tenantId, projectId }, 'Error en deleteVector');
+      throw error;
+    }
+  }
+
+  /**
+   * Reemplaza los fragmentos de un proyecto en proyecto_vector_chunk
+   * Con una lista vacía solo elimina los fragmentos existentes
+   */
+  async replaceVectorChunks(tenantId: string, projectId: string, chunks: VectorChunk[]): Promise<void> {
+    try {
+      const { error: deleteError } = await this.client
+        .from('proyecto_vector_chunk')
+        .delete()
+        .eq('inmobiliaria_id', tenantId)
+        .eq('project_id', projectId);
+
+      if (deleteError) {
+        logger.error({ error: deleteError, tenantId, projectId }, 'Error al eliminar fragmentos del proyecto');
+        throw deleteError;
+      }
+
+      if (chunks.length === 0) {
+        return;
+      }
+
+      const now = new Date().toISOString();
+      const { error } = await this.client
+        .from('proyecto_vector_chunk')
+        .insert(chunks.map(chunk => ({ ...chunk, updated_at: now })));
+
+      if (error) {
+        logger.error({ error, tenantId, projectId, chunkCount: chunks.length }, 'Error al insertar fragmentos del proyecto');
+        throw error;
+      }
+
+      logger.debug({ tenantId, projectId, chunkCount: chunks.length }, 'Fragmentos del proyecto actualizados');
+    } catch (error) {
+      logger.error({ error, tenantId, projectId }, 'Error en replaceVectorChunks');
+      throw error;
+    }
+  }
+
   /**
    * Verifica si una inmobiliaria existe
    */
@@ -388,25 +568,26 @@ export class SupabaseService {
   /**
    * Verifica si un proyecto existe sin recuperar todos sus datos
    * Útil como verificación rápida antes de intentar operaciones más pesadas
+   * Con tenantId solo se consideran los proyectos de esa inmobiliaria.
+   * Los errores de consulta se propagan: false significa que el proyecto no existe
    */
-  async checkProjectExists(projectId: string): Promise<boolean> {
-    try {
-      const { data, error } = await this.client
-        .from('proyectos')
-        .select('id')
-        .eq('id', projectId)
-        .limit(1);
-      
-      if (error) {
-        logger.warn({ error, projectId }, 'Error al verificar existencia del proyecto');
-        return false;
-      }
-      
-      return !!(data && data.length > 0);
-    } catch (error) {
-      logger.warn({ error, projectId }, 'Excepción al verificar existencia del proyecto');
-      return false;
+  async checkProjectExists(projectId: string, tenantId?: string): Promise<boolean> {
+    let query = this.client
+      .from('proyectos')
+      .select('id')
+      .eq('id', projectId);
+
+    if (tenantId) {
+      query = query.eq('inmobiliaria_id', tenantId);
+    }
+
+    const { data, error } = await query.limit(1);
+    if (error) {
+      logger.error({ error, projectId, tenantId }, 'Error al verificar existencia del proyecto');
+      throw error;
     }
+
+    return !!(data && data.length > 0);
   }
   
   /**
@@ -432,199 +613,277 @@ export class SupabaseService {
   }
 
   /**
-   * Elimina los vectores de proyectos que ya no existen
+   * Obtiene el vector de un proyecto del tenant con su embedding
    */
-  async cleanupOrphanedVectors(tenantId: string): Promise<void> {
+  async getVector(tenantId: string, projectId: string): Promise<VectorData | null> {
     try {
-      const { error } = await this.client.rpc('rpc_cleanup_orphaned_vectors', tenantId);
+      const { data, error } = await this.client
+        .from('proyecto_vector')
+        .select('*')
+        .eq('inmobiliaria_id', tenantId)
+        .eq('project_id', projectId)
+        .maybeSingle();
 
       if (error) {
-        logger.error({ error, tenantId }, 'Error al limpiar vectores huérfanos');
+        logger.error({ error, tenantId, projectId }, 'Error al obtener vector');
         throw error;
       }
+
+      if (!data) {
+        return null;
+      }
+
+      // pgvector se serializa como texto ('[0.1,0.2,...]')
+      return {
+        ...data,
+        embedding: typeof data.embedding === 'string' ? JSON.parse(data.embedding) : data.embedding
+      };
     } catch (error) {
-      logger.error({ error, tenantId }, 'Error en cleanupOrphanedVectors');
+      logger.error({ error, tenantId, projectId }, 'Error en getVector');
       throw error;
     }
   }
 
   /**
-   * Obtiene la lista de tenants activos
+   * Obtiene la metadata de los vectores existentes para un conjunto de proyectos
+   * Retorna un mapa project_id -> metadata (sin cargar los embeddings)
    */
-  async getActiveTenants(): Promise<string[]> {
+  async getVectorMetadata(
+    tenantId: string,
+    projectIds: string[]
+  ): Promise<Map<string, VectorData['metadata']>> {
+    const result = new Map<string, VectorData['metadata']>();
+    if (projectIds.length === 0) {
+      return result;
+    }
+
     try {
-      // Por ahora, obtendremos todos los tenants sin filtrar por estado
       const { data, error } = await this.client
-        .from('inmobiliarias')
-        .select('id')
-        .eq('active', true);
+        .from('proyecto_vector')
+        .select('project_id, metadata')
+        .eq('inmobiliaria_id', tenantId)
+        .in('project_id', projectIds);
 
       if (error) {
-        logger.error({ error }, 'Error al obtener tenants activos');
+        logger.error({ error, tenantId }, 'Error al obtener metadata de vectores');
         throw error;
       }
 
-      return (data || []).map(tenant => tenant.id);
+      for (const row of data || []) {
+        if (row.metadata) {
+          result.set(row.project_id, row.metadata);
+        }
+      }
+      return result;
     } catch (error) {
-      logger.error({ error }, 'Error en getActiveTenants');
+      logger.error({ error, tenantId }, 'Error en getVectorMetadata');
       throw error;
     }
   }
-}
 
-// Exportar una instancia única del servicio
-// Añadir métodos de diagnóstico a SupabaseService
-export class SupabaseDiagnostic {
-  async checkVectorExists(projectId: string): Promise<any> {
+  /**
+   * Obtiene una página de los vectores de un tenant sin cargar los embeddings
+   * La dimensión de cada embedding se calcula con rpc_audit_proyecto_vectors (vector_dims)
+   */
+  async getVectorAuditPage(
+    tenantId: string,
+    afterProjectId: string | null,
+    limit: number
+  ): Promise<VectorAuditRow[]> {
     try {
-      logger.info({ projectId }, 'Verificando vector para proyecto');
-      
-      // Verificar si el proyecto existe
-      const projectExists = await supabaseService.checkProjectExists(projectId);
-      
-      if (!projectExists) {
-        logger.warn({ projectId }, 'Diagnóstico: Proyecto no existe en tabla proyectos');
-        return {
-          exists: false,
-          error: 'El proyecto no existe en la tabla proyectos',
-          projectId
-        };
+      const { data, error } = await this.client.rpc('rpc_audit_proyecto_vectors', {
+        p_inmobiliaria_id: tenantId,
+        p_after_project_id: afterProjectId,
+        p_limit: limit,
+      });
+
+      if (error) {
+        logger.error({ error, tenantId }, 'Error al obtener vectores para auditoría');
+        throw error;
       }
-      
-      // Consultar en proyecto_vector
-      try {
-        const { data, error } = await supabaseService.getClient()
-          .from('proyecto_vector')
-          .select('*')
-          .eq('project_id', projectId)
-          .maybeSingle();
-        
-        if (error) {
-          logger.error({ error, projectId }, 'Error al verificar vector en diagnóstico');
-          return {
-            exists: false,
-            error: `Error consultando vector: ${error.message} (${error.code})`,
-            projectId
-          };
-        }
-        
-        if (!data) {
-          logger.warn({ projectId }, 'Diagnóstico: Vector no encontrado');
-          return {
-            exists: false,
-            projectId
-          };
-        }
-        
-        // Vector encontrado, verificar su estructura
-        const diagnostico = {
-          exists: true,
-          id: data.id,
-          projectId: data.project_id,
-          inmobiliariaId: data.inmobiliaria_id,
-          createdAt: data.created_at,
-          updatedAt: data.updated_at,
-          hasContent: !!data.content,
-          hasEmbedding: !!data.embedding,
-          hasMetadata: !!data.metadata,
-          metadata: data.metadata
-        };
-        
-        logger.info(diagnostico, 'Diagnóstico de vector completado');
-        return diagnostico;
-      } catch (error) {
-        logger.error({ error, projectId }, 'Error en diagnóstico de vector');
+
+      return data || [];
+    } catch (error) {
+      logger.error({ error, tenantId }, 'Error en getVectorAuditPage');
+      throw error;
+    }
+  }
+
+  /**
+   * Obtiene una página de vectores con sus embeddings, ordenados por id
+   * De un tenant o de todos; se pagina por cursor (id mayor que afterId)
+   */
+  async getVectorEmbeddingPage(options: {
+    tenantId?: string | null;
+    afterId?: string | null;
+    limit: number;
+  }): Promise<Pick<VectorData, 'id' | 'inmobiliaria_id' | 'project_id' | 'embedding' | 'metadata'>[]> {
+    try {
+      let query = this.client
+        .from('proyecto_vector')
+        .select('id, inmobiliaria_id, project_id, embedding, metadata')
+        .order('id', { ascending: true })
+        .limit(options.limit);
+
+      if (options.tenantId) {
+        query = query.eq('inmobiliaria_id', options.tenantId);
+      }
+      if (options.afterId) {
+        query = query.gt('id', options.afterId);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        logger.error({ error, options }, 'Error al obtener página de vectores');
         throw error;
       }
+
+      // pgvector se serializa como texto ('[0.1,0.2,...]')
+      return (data || []).map(row => ({
+        ...row,
+        embedding: typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding
+      }));
     } catch (error) {
-      logger.error({ error, projectId }, 'Error en checkVectorExists');
+      logger.error({ error, tenantId: options.tenantId }, 'Error en getVectorEmbeddingPage');
       throw error;
     }
   }
 
-  async fixVectorForProject(projectId: string, tenantId: string): Promise<any> {
+  /**
+   * Obtiene el contenido de un conjunto de vectores por id (sin cargar los embeddings)
+   */
+  async getVectorContents(ids: string[]): Promise<Pick<VectorData, 'id' | 'inmobiliaria_id' | 'project_id' | 'content'>[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
     try {
-      logger.info({ projectId, tenantId }, 'Intentando reparar vector');
-      
-      // Obtener el proyecto
-      const proyecto = await supabaseService.getProject(tenantId, projectId);
-      
-      if (!proyecto) {
-        logger.error({ projectId, tenantId }, 'Error obteniendo proyecto para reparación');
-        return {
-          success: false,
-          error: 'Proyecto no encontrado'
-        };
+      const { data, error } = await this.client
+        .from('proyecto_vector')
+        .select('id, inmobiliaria_id, project_id, content')
+        .in('id', ids);
+
+      if (error) {
+        logger.error({ error, count: ids.length }, 'Error al obtener contenido de vectores');
+        throw error;
       }
-      
-      // Preparar contenido para el embedding
-      const caract = proyecto.caracteristicas || {};
-      const content = [
-        caract.nombre,
-        caract.caracteristicas,
-        caract.valor,
-        caract.ubicacion,
-        JSON.stringify(caract)
-      ]
-        .filter(Boolean)
-        .join(' ');
-      
-      if (!content) {
-        logger.warn({ projectId }, 'Contenido vacío para vector, usando nombre por defecto');
+
+      return data || [];
+    } catch (error) {
+      logger.error({ error }, 'Error en getVectorContents');
+      throw error;
+    }
+  }
+
+  /**
+   * Busca los vectores más similares a un embedding mediante la función
+   * rpc_match_proyecto_vector (similitud coseno con pgvector)
+   * Si no se indica tenantId la búsqueda abarca todos los tenants
+   */
+  async searchVectors(
+    embedding: number[],
+    options: { tenantId?: string; threshold: number; limit: number }
+  ): Promise<VectorSearchResult[]> {
+    try {
+      const { data, error } = await this.client.rpc('rpc_match_proyecto_vector', {
+        query_embedding: embedding,
+        match_threshold: options.threshold,
+        match_count: options.limit,
+        filter_inmobiliaria_id: options.tenantId ?? null,
+      });
+
+      if (error) {
+        logger.error({ error, tenantId: options.tenantId }, 'Error en búsqueda de vectores');
+        throw error;
       }
-      
-      // Crear un vector temporal (embedding placeholder)
-      const dummyEmbedding = Array(1536).fill(0.1);
-      
-      // Preparar datos para upsert
-      const vectorData: VectorData = {
-        id: projectId,
-        inmobiliaria_id: tenantId,
-        project_id: projectId,
-        content: content || 'Contenido temporal de diagnóstico',
-        embedding: dummyEmbedding,
-        metadata: {
-          lastUpdate: new Date().toISOString(),
-          contentVersion: 1,
-          processedFields: ['nombre', 'descripcion', 'caracteristicas'],
-          dimensions: 1536,
-          model: 'text-embedding-ada-002'
-        }
-      };
-      
-      try {
-        // Intentar el upsert con el método existente
-        await supabaseService.upsertVector(vectorData);
-        
-        // Verificar nuevamente después de la reparación
-        const verificacion = await this.checkVectorExists(projectId);
-        
-        return {
-          success: true,
-          verificacion
-        };
-      } catch (error) {
-        logger.error({ error, projectId }, 'Error en reparación de vector');
-        
-        return {
-          success: false,
-          error: error instanceof Error ?
-            { message: error.message } :
-            { message: 'Error desconocido', details: JSON.stringify(error) }
-        };
+
+      return (data || []).map((row: any) => ({
+        project_id: row.project_id,
+        inmobiliaria_id: row.inmobiliaria_id,
+        score: row.similarity,
+        content: row.content,
+        metadata: row.metadata,
+      }));
+    } catch (error) {
+      logger.error({ error, tenantId: options.tenantId }, 'Error en searchVectors');
+      throw error;
+    }
+  }
+
+  /**
+   * Busca los fragmentos más similares a un embedding mediante la función
+   * rpc_match_proyecto_vector_chunks. Puede devolver varios fragmentos por proyecto
+   */
+  async searchVectorChunks(
+    embedding: number[],
+    options: { tenantId?: string; threshold: number; limit: number }
+  ): Promise<(VectorSearchResult & { chunk_index: number })[]> {
+    try {
+      const { data, error } = await this.client.rpc('rpc_match_proyecto_vector_chunks', {
+        query_embedding: embedding,
+        match_threshold: options.threshold,
+        match_count: options.limit,
+        filter_inmobiliaria_id: options.tenantId ?? null,
+      });
+
+      if (error) {
+        logger.error({ error, tenantId: options.tenantId }, 'Error en búsqueda de fragmentos');
+        throw error;
       }
+
+      return (data || []).map((row: any) => ({
+        project_id: row.project_id,
+        inmobiliaria_id: row.inmobiliaria_id,
+        chunk_index: row.chunk_index,
+        score: row.similarity,
+        content: row.content,
+      }));
     } catch (error) {
-      logger.error({ error, projectId }, 'Excepción en reparación de vector');
-      
-      return {
-        success: false,
-        error: error instanceof Error ?
-          { message: error.message, stack: error.stack } :
-          { message: 'Error desconocido', details: JSON.stringify(error) }
-      };
+      logger.error({ error, tenantId: options.tenantId }, 'Error en searchVectorChunks');
+      throw error;
+    }
+  }
+
+  /**
+   * Elimina los vectores de proyectos que ya no existen
+   */
+  async cleanupOrphanedVectors(tenantId: string): Promise<void> {
+    try {
+      const { error } = await this.client.rpc('rpc_cleanup_orphaned_vectors', tenantId);
+
+      if (error) {
+        logger.error({ error, tenantId }, 'Error al limpiar vectores huérfanos');
+        throw error;
+      }
+    } catch (error) {
+      logger.error({ error, tenantId }, 'Error en cleanupOrphanedVectors');
+      throw error;
+    }
+  }
+
+  /**
+   * Obtiene la lista de tenants activos
+   */
+  async getActiveTenants(): Promise<string[]> {
+    try {
+      // Por ahora, obtendremos todos los tenants sin filtrar por estado
+      const { data, error } = await this.client
+        .from('inmobiliarias')
+        .select('id')
+        .eq('active', true);
+
+      if (error) {
+        logger.error({ error }, 'Error al obtener tenants activos');
+        throw error;
+      }
+
+      return (data || []).map(tenant => tenant.id);
+    } catch (error) {
+      logger.error({ error }, 'Error en getActiveTenants');
+      throw error;
     }
   }
 }
 
+// Exportar una instancia única del servicio
 export const supabaseService = new SupabaseService();
-export const supabaseDiagnostic = new SupabaseDiagnostic();
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+
+// Codificación usada por los modelos de embedding de OpenAI (text-embedding-3-*, ada-002)
+const ENCODING_NAME = 'cl100k_base';
+
+// Un carácter UTF-8 ocupa hasta 4 bytes, por lo que un corte puede dejar hasta 3 tokens incompletos
+const MAX_PARTIAL_TOKENS = 3;
+const REPLACEMENT_CHAR = '\uFFFD';
+
+let encoding: Tiktoken | undefined;
+
+function getTokenizer(): Tiktoken {
+  // La tabla de rangos es grande: se carga solo cuando se necesita
+  if (!encoding) {
+    encoding = getEncoding(ENCODING_NAME);
+  }
+  return encoding;
+}
+
+/**
+ * Decodifica el rango de tokens [start, end) sin cortar caracteres multibyte:
+ * adelanta el inicio y retrocede el fin mientras los bordes decodifiquen como U+FFFD
+ */
+function decodeRange(tokens: number[], start: number, end: number): { text: string; start: number; end: number } {
+  const decode = () => getTokenizer().decode(tokens.slice(start, end));
+  let text = decode();
+  for (let step = 0; step < MAX_PARTIAL_TOKENS && end > start && text.startsWith(REPLACEMENT_CHAR); step++) {
+    start += 1;
+    text = decode();
+  }
+  for (let step = 0; step < MAX_PARTIAL_TOKENS && end > start && text.endsWith(REPLACEMENT_CHAR); step++) {
+    end -= 1;
+    text = decode();
+  }
+  return { text, start, end };
+}
+
+/**
+ * Cuenta los tokens de un texto con el tokenizador local
+ */
+export function countTokens(text: string): number {
+  return getTokenizer().encode(text).length;
+}
+
+/**
+ * Trunca un texto a un máximo de tokens
+ * Retorna el texto original si ya cabe en el límite
+ */
+export function truncateToTokens(text: string, maxTokens: number): { text: string; tokens: number; truncated: boolean } {
+  const tokens = getTokenizer().encode(text);
+  if (tokens.length <= maxTokens) {
+    return { text, tokens: tokens.length, truncated: false };
+  }
+
+  const range = decodeRange(tokens, 0, maxTokens);
+  return {
+    text: range.text,
+    tokens: range.end - range.start,
+    truncated: true
+  };
+}
+
+/**
+ * Divide un texto en fragmentos de hasta chunkTokens tokens que se solapan
+ * overlapTokens tokens con el fragmento anterior
+ * Los cortes se ajustan para no partir caracteres multibyte
+ */
+export function splitIntoChunks(text: string, chunkTokens: number, overlapTokens: number): string[] {
+  const tokens = getTokenizer().encode(text);
+  if (tokens.length <= chunkTokens) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < tokens.length) {
+    const range = decodeRange(tokens, start, Math.min(start + chunkTokens, tokens.length));
+    if (range.text) {
+      chunks.push(range.text);
+    }
+    if (range.end >= tokens.length) {
+      break;
+    }
+    // El siguiente fragmento empieza donde terminó este (ya ajustado), menos el solapamiento
+    start = Math.max(range.end - overlapTokens, range.start + 1);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,367 @@
+import { config, logger } from '../config/config.js';
+import { supabaseService } from './supabase.js';
+import { estimateEmbeddingCost } from './pricing.js';
+import { DailyUsage } from '../types/vector.js';
+
+// Filas por página al leer el consumo de Supabase
+const USAGE_PAGE_SIZE = 1000;
+
+export interface UsageFilter {
+  tenantId?: string;
+  from?: string; // YYYY-MM-DD inclusive
+  to?: string; // YYYY-MM-DD inclusive
+}
+
+export interface UsageTotals {
+  tokens: number;
+  cost: number;
+  requests: number;
+}
+
+export interface PeriodUsage {
+  day: UsageTotals; // Día UTC en curso
+  month: UsageTotals; // Mes UTC en curso
+}
+
+export interface TenantCostReport extends UsageTotals {
+  inmobiliaria_id: string;
+  models: Record<string, UsageTotals>;
+  days: ({ day: string } & UsageTotals)[];
+}
+
+export interface CostReport extends UsageTotals {
+  from: string | null;
+  to: string | null;
+  tenants: TenantCostReport[];
+}
+
+/**
+ * Almacenamiento del consumo diario por tenant y modelo
+ */
+export interface UsageStore {
+  increment(rows: DailyUsage[]): Promise<void>; // Suma a los valores existentes
+  list(filter: UsageFilter): Promise<DailyUsage[]>;
+  totals(): Promise<Map<string, UsageTotals>>; // Consumo histórico por tenant
+}
+
+/**
+ * Consumo respaldado por la tabla vector_usage_daily de Supabase
+ * Los incrementos se aplican con rpc_increment_vector_usage para que varias
+ * instancias puedan acumular sobre la misma fila
+ */
+export class SupabaseUsageStore implements UsageStore {
+  async increment(rows: DailyUsage[]): Promise<void> {
+    const { error } = await supabaseService.getClient().rpc('rpc_increment_vector_usage', {
+      p_rows: rows,
+    });
+
+    if (error) {
+      logger.error({ error, rows: rows.length }, 'Error al registrar consumo de embeddings');
+      throw error;
+    }
+  }
+
+  async list(filter: UsageFilter): Promise<DailyUsage[]> {
+    const rows: DailyUsage[] = [];
+
+    for (let offset = 0; ; offset += USAGE_PAGE_SIZE) {
+      let query = supabaseService.getClient()
+        .from('vector_usage_daily')
+        .select('*')
+        .order('day', { ascending: true })
+        .order('inmobiliaria_id', { ascending: true })
+        .order('model', { ascending: true })
+        .range(offset, offset + USAGE_PAGE_SIZE - 1);
+
+      if (filter.tenantId) {
+        query = query.eq('inmobiliaria_id', filter.tenantId);
+      }
+      if (filter.from) {
+        query = query.gte('day', filter.from);
+      }
+      if (filter.to) {
+        query = query.lte('day', filter.to);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        logger.error({ error, filter }, 'Error al obtener consumo de embeddings');
+        throw error;
+      }
+
+      rows.push(...(data || []).map(row => ({
+        ...row,
+        tokens: Number(row.tokens),
+        cost: Number(row.cost),
+        requests: Number(row.requests)
+      })));
+      if (!data || data.length < USAGE_PAGE_SIZE) {
+        return rows;
+      }
+    }
+  }
+
+  async totals(): Promise<Map<string, UsageTotals>> {
+    const { data, error } = await supabaseService.getClient().rpc('rpc_vector_usage_totals');
+
+    if (error) {
+      logger.error({ error }, 'Error al obtener consumo histórico de embeddings');
+      throw error;
+    }
+
+    return new Map((data || []).map((row: any) => [row.inmobiliaria_id, {
+      tokens: Number(row.tokens),
+      cost: Number(row.cost),
+      requests: Number(row.requests)
+    }]));
+  }
+}
+
+/**
+ * Consumo en memoria, utilizado en modo demo (no sobrevive a reinicios)
+ */
+export class MemoryUsageStore implements UsageStore {
+  private rows: Map<string, DailyUsage> = new Map();
+
+  async increment(rows: DailyUsage[]): Promise<void> {
+    for (const row of rows) {
+      const key = usageKey(row);
+      const existing = this.rows.get(key);
+      this.rows.set(key, existing ? addUsage(existing, row) : { ...row });
+    }
+  }
+
+  async list(filter: UsageFilter): Promise<DailyUsage[]> {
+    return [...this.rows.values()]
+      .filter(row => !filter.tenantId || row.inmobiliaria_id === filter.tenantId)
+      .filter(row => !filter.from || row.day >= filter.from)
+      .filter(row => !filter.to || row.day <= filter.to)
+      .sort((a, b) => a.day.localeCompare(b.day) || a.inmobiliaria_id.localeCompare(b.inmobiliaria_id))
+      .map(row => ({ ...row }));
+  }
+
+  async totals(): Promise<Map<string, UsageTotals>> {
+    const totals = new Map<string, UsageTotals>();
+    for (const row of this.rows.values()) {
+      totals.set(row.inmobiliaria_id, addTotals(totals.get(row.inmobiliaria_id), row));
+    }
+    return totals;
+  }
+}
+
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function usageKey(row: Pick<DailyUsage, 'inmobiliaria_id' | 'day' | 'model'>): string {
+  return `${row.inmobiliaria_id}:${row.day}:${row.model}`;
+}
+
+function addUsage(target: DailyUsage, delta: UsageTotals): DailyUsage {
+  return {
+    ...target,
+    tokens: target.tokens + delta.tokens,
+    cost: target.cost + delta.cost,
+    requests: target.requests + delta.requests
+  };
+}
+
+function addTotals(target: UsageTotals | undefined, delta: UsageTotals): UsageTotals {
+  return {
+    tokens: (target?.tokens ?? 0) + delta.tokens,
+    cost: (target?.cost ?? 0) + delta.cost,
+    requests: (target?.requests ?? 0) + delta.requests
+  };
+}
+
+/**
+ * Acumula el consumo de tokens de los requests de embeddings por tenant, día (UTC) y modelo
+ * El costo se calcula al registrar el consumo con la tabla de precios vigente.
+ * Los incrementos se agrupan en memoria y se guardan cada config.usage.flushInterval ms
+ */
+export class UsageService {
+  private totals: Map<string, UsageTotals> = new Map();
+  private monthRows: Map<string, DailyUsage> = new Map(); // Consumo guardado del mes en curso
+  private pending: Map<string, DailyUsage> = new Map();
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(private store: UsageStore) {}
+
+  /**
+   * Carga el consumo histórico e inicia el guardado periódico
+   */
+  async initialize(): Promise<void> {
+    try {
+      await this.refreshTotals();
+      logger.info({ tenants: this.totals.size }, 'Consumo de embeddings restaurado');
+    } catch (error) {
+      logger.error({ error }, 'No se pudo restaurar el consumo de embeddings');
+    }
+
+    this.flushTimer = setInterval(() => {
+      this.flush()
+        .then(() => this.refreshTotals())
+        .catch(error => logger.warn({ error }, 'Error guardando consumo de embeddings'));
+    }, config.usage.flushInterval);
+    this.flushTimer.unref();
+  }
+
+  /**
+   * Registra los tokens consumidos por un request de embeddings de un tenant
+   */
+  record(tenantId: string, model: string, tokens: number): void {
+    const row: DailyUsage = {
+      inmobiliaria_id: tenantId,
+      day: currentDay(),
+      model,
+      tokens,
+      cost: estimateEmbeddingCost(model, tokens),
+      requests: 1
+    };
+
+    const key = usageKey(row);
+    const existing = this.pending.get(key);
+    this.pending.set(key, existing ? addUsage(existing, row) : row);
+  }
+
+  /**
+   * Consumo histórico de un tenant, incluyendo el pendiente de guardar
+   */
+  getTotals(tenantId: string): UsageTotals {
+    let totals = this.totals.get(tenantId) ?? { tokens: 0, cost: 0, requests: 0 };
+    for (const row of this.pending.values()) {
+      if (row.inmobiliaria_id === tenantId) {
+        totals = addTotals(totals, row);
+      }
+    }
+    return totals;
+  }
+
+  /**
+   * Consumo de un tenant en el día y el mes en curso, incluyendo el pendiente de guardar
+   */
+  getPeriodUsage(tenantId: string): PeriodUsage {
+    const today = currentDay();
+    const month = today.slice(0, 7);
+    const usage: PeriodUsage = {
+      day: { tokens: 0, cost: 0, requests: 0 },
+      month: { tokens: 0, cost: 0, requests: 0 }
+    };
+
+    for (const row of [...this.monthRows.values(), ...this.pending.values()]) {
+      if (row.inmobiliaria_id !== tenantId || !row.day.startsWith(month)) {
+        continue;
+      }
+      usage.month = addTotals(usage.month, row);
+      if (row.day === today) {
+        usage.day = addTotals(usage.day, row);
+      }
+    }
+
+    return usage;
+  }
+
+  /**
+   * Consumo histórico de todos los tenants conocidos
+   */
+  getAllTotals(): Map<string, UsageTotals> {
+    const tenants = new Set([...this.totals.keys(), ...[...this.pending.values()].map(row => row.inmobiliaria_id)]);
+    return new Map([...tenants].map(tenantId => [tenantId, this.getTotals(tenantId)]));
+  }
+
+  /**
+   * Guarda el consumo acumulado en memoria
+   * Si falla, el consumo se conserva para el siguiente intento
+   */
+  async flush(): Promise<void> {
+    if (this.pending.size === 0) {
+      return;
+    }
+
+    const rows = [...this.pending.values()];
+    this.pending = new Map();
+
+    try {
+      await this.store.increment(rows);
+      for (const row of rows) {
+        this.totals.set(row.inmobiliaria_id, addTotals(this.totals.get(row.inmobiliaria_id), row));
+        const key = usageKey(row);
+        const existing = this.monthRows.get(key);
+        this.monthRows.set(key, existing ? addUsage(existing, row) : row);
+      }
+    } catch (error) {
+      for (const row of rows) {
+        const key = usageKey(row);
+        const existing = this.pending.get(key);
+        this.pending.set(key, existing ? addUsage(existing, row) : row);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reporte de consumo y costos por tenant, modelo y día
+   */
+  async getReport(filter: UsageFilter = {}): Promise<CostReport> {
+    await this.flush();
+    const rows = await this.store.list(filter);
+
+    const tenants = new Map<string, TenantCostReport>();
+    for (const row of rows) {
+      let tenant = tenants.get(row.inmobiliaria_id);
+      if (!tenant) {
+        tenant = { inmobiliaria_id: row.inmobiliaria_id, tokens: 0, cost: 0, requests: 0, models: {}, days: [] };
+        tenants.set(row.inmobiliaria_id, tenant);
+      }
+
+      Object.assign(tenant, addTotals(tenant, row));
+      tenant.models[row.model] = addTotals(tenant.models[row.model], row);
+
+      const day = tenant.days.find(entry => entry.day === row.day);
+      if (day) {
+        Object.assign(day, addTotals(day, row));
+      } else {
+        tenant.days.push({ day: row.day, tokens: row.tokens, cost: row.cost, requests: row.requests });
+      }
+    }
+
+    const report = [...tenants.values()].sort((a, b) => b.cost - a.cost || b.tokens - a.tokens);
+    return {
+      from: filter.from ?? null,
+      to: filter.to ?? null,
+      tokens: report.reduce((total, tenant) => total + tenant.tokens, 0),
+      cost: report.reduce((total, tenant) => total + tenant.cost, 0),
+      requests: report.reduce((total, tenant) => total + tenant.requests, 0),
+      tenants: report
+    };
+  }
+
+  /**
+   * Detiene el guardado periódico y guarda el consumo pendiente
+   */
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    try {
+      await this.flush();
+    } catch (error) {
+      logger.error({ error }, 'No se pudo guardar el consumo de embeddings pendiente');
+    }
+  }
+
+  private async refreshTotals(): Promise<void> {
+    // Incluye el consumo registrado por otras instancias
+    const monthStart = `${currentDay().slice(0, 7)}-01`;
+    const [totals, rows] = await Promise.all([this.store.totals(), this.store.list({ from: monthStart })]);
+    this.totals = totals;
+    this.monthRows = new Map(rows.map(row => [usageKey(row), row]));
+  }
+}
+
+// Exportar una instancia única del servicio
+export const usageService = new UsageService(
+  config.usage.store === 'memory' ? new MemoryUsageStore() : new SupabaseUsageStore()
+);
@@ -0,0 +1,109 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { config } from '../config/config.js';
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+
+export interface WebhookAuthResult {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Calcula la firma HMAC-SHA256 de un webhook
+ * El contenido firmado es `${timestamp}.${cuerpo}` para evitar reutilizar firmas
+ */
+export function signWebhookPayload(secret: string, timestamp: string, rawBody: Buffer | string): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest('hex');
+}
+
+export function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+function getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Indica si hay algún mecanismo de autenticación de webhooks configurado
+ */
+export function isWebhookAuthEnabled(): boolean {
+  return config.webhook.secrets.length > 0 || !!config.webhook.bearerToken;
+}
+
+/**
+ * Verifica el token bearer si WEBHOOK_BEARER_TOKEN está configurado
+ */
+export function verifyBearerToken(headers: IncomingHttpHeaders): WebhookAuthResult {
+  if (!config.webhook.bearerToken) {
+    return { valid: true };
+  }
+
+  const authorization = getHeader(headers, 'authorization') || '';
+  const [scheme, token] = authorization.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token || !safeEqual(token, config.webhook.bearerToken)) {
+    return { valid: false, reason: 'Token bearer inválido o ausente' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Verifica la autenticación de un webhook:
+ * - Bearer token (si WEBHOOK_BEARER_TOKEN está configurado)
+ * - Firma HMAC-SHA256 sobre el cuerpo crudo con cualquiera de los secretos activos
+ * - Antigüedad del timestamp dentro de la tolerancia configurada (protección contra replay)
+ */
+export function verifyWebhookRequest(headers: IncomingHttpHeaders, rawBody: Buffer): WebhookAuthResult {
+  const bearer = verifyBearerToken(headers);
+  if (!bearer.valid) {
+    return bearer;
+  }
+
+  if (config.webhook.secrets.length === 0) {
+    return { valid: true };
+  }
+
+  const signatureHeader = getHeader(headers, SIGNATURE_HEADER);
+  const timestamp = getHeader(headers, TIMESTAMP_HEADER);
+  if (!signatureHeader || !timestamp) {
+    return { valid: false, reason: `Faltan las cabeceras ${SIGNATURE_HEADER} o ${TIMESTAMP_HEADER}` };
+  }
+
+  const timestampSeconds = Number(timestamp);
+  if (!Number.isFinite(timestampSeconds)) {
+    return { valid: false, reason: 'Timestamp inválido' };
+  }
+
+  const ageSeconds = Math.abs(Date.now() / 1000 - timestampSeconds);
+  if (ageSeconds > config.webhook.timestampTolerance) {
+    return { valid: false, reason: 'Timestamp fuera de la tolerancia permitida' };
+  }
+
+  const signature = signatureHeader.replace(/^sha256=/, '');
+  const matches = config.webhook.secrets.some(secret =>
+    safeEqual(signature, signWebhookPayload(secret, timestamp, rawBody))
+  );
+
+  return matches ? { valid: true } : { valid: false, reason: 'Firma inválida' };
+}
+
+/**
+ * Verifica una consulta de estado de trabajo (GET sin cuerpo)
+ * Con WEBHOOK_BEARER_TOKEN basta el token; con solo secretos HMAC se firman el método y la ruta
+ * (`${timestamp}.GET /webhook/jobs/<id>`) para que la firma no sirva para otro trabajo o ruta
+ */
+export function verifyJobStatusRequest(headers: IncomingHttpHeaders, method: string, url: string): WebhookAuthResult {
+  if (config.webhook.bearerToken) {
+    return verifyBearerToken(headers);
+  }
+  return verifyWebhookRequest(headers, Buffer.from(`${method} ${url}`));
+}
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { Project, ProjectChange } from '../types/project.js';
+
+export interface ParsedWebhook {
+  format: 'custom' | 'supabase';
+  inmobiliaria_id: string;
+  project_id: string;
+  event: ProjectChange['changeType'];
+  change?: ProjectChange; // Solo disponible cuando el payload incluye la fila completa
+}
+
+export type WebhookParseResult =
+  | { ok: true; webhook: ParsedWebhook }
+  | { ok: false; error: string };
+
+const eventSchema = z.enum(['INSERT', 'UPDATE', 'DELETE']);
+
+// Formato estándar de Supabase Database Webhooks ({ type, table, schema, record, old_record })
+const supabasePayloadSchema = z.object({
+  type: z.string(),
+  table: z.string(),
+  schema: z.string().optional(),
+  record: z.record(z.any()).nullable(),
+  old_record: z.record(z.any()).nullable().optional(),
+});
+
+// Fila del proyecto: solo se exigen las claves, el resto de columnas se toma tal cual
+const rowSchema = z.object({
+  id: z.string().min(1),
+  inmobiliaria_id: z.string().min(1),
+});
+
+// Formato propio ({ inmobiliaria_id, project_id, event })
+const customPayloadSchema = z.object({
+  inmobiliaria_id: z.string().min(1),
+  project_id: z.string().min(1),
+  event: z.unknown().optional(),
+});
+
+/**
+ * Indica si el cuerpo tiene el formato estándar de Supabase Database Webhooks
+ */
+function isSupabasePayload(data: unknown): data is z.infer<typeof supabasePayloadSchema> {
+  return supabasePayloadSchema.safeParse(data).success;
+}
+
+/**
+ * Normaliza el cuerpo de un webhook, aceptando tanto el formato propio
+ * ({ inmobiliaria_id, project_id, event }) como el de Supabase Database Webhooks
+ */
+export function parseWebhookPayload(data: unknown): WebhookParseResult {
+  if (isSupabasePayload(data)) {
+    if (data.table !== 'proyectos') {
+      return { ok: false, error: `Tabla no soportada: ${data.schema ?? 'public'}.${data.table}` };
+    }
+    const parsedEvent = eventSchema.safeParse(data.type);
+    if (!parsedEvent.success) {
+      return { ok: false, error: `Tipo de evento no soportado: ${data.type}` };
+    }
+
+    // En DELETE solo viene old_record; en INSERT/UPDATE la fila nueva está en record
+    const event = parsedEvent.data;
+    const record = event === 'DELETE' ? data.old_record : data.record;
+    if (!rowSchema.safeParse(record).success) {
+      return { ok: false, error: 'Datos incompletos: el registro no incluye id e inmobiliaria_id' };
+    }
+    const row = record as Project;
+
+    return {
+      ok: true,
+      webhook: {
+        format: 'supabase',
+        inmobiliaria_id: row.inmobiliaria_id,
+        project_id: row.id,
+        event,
+        change: {
+          project: row,
+          changeType: event,
+          timestamp: row.updated_at || new Date().toISOString()
+        }
+      }
+    };
+  }
+
+  const parsed = customPayloadSchema.safeParse(data);
+  if (!parsed.success) {
+    return { ok: false, error: 'Datos incompletos: se requiere inmobiliaria_id y project_id' };
+  }
+
+  const { inmobiliaria_id, project_id, event } = parsed.data;
+  return {
+    ok: true,
+    webhook: {
+      format: 'custom',
+      inmobiliaria_id,
+      project_id,
+      event: event === 'DELETE' || event === 'INSERT' ? event : 'UPDATE'
+    }
+  };
+}
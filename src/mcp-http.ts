@@ -0,0 +1,239 @@
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { config, logger } from './config/config.js';
+import { authenticateMcpRequest, McpAccessScope } from './lib/mcp-auth.js';
+import { createMcpServer } from './mcp-server.js';
+
+const SESSION_HEADER = 'mcp-session-id';
+// Tamaño máximo de un mensaje, el mismo que acepta el transporte del SDK
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  scope: McpAccessScope;
+  lastActivity: number;
+}
+
+// Sesiones abiertas por ID (Streamable HTTP y SSE)
+const sessions: Map<string, McpSession> = new Map();
+let sweepTimer: NodeJS.Timeout | undefined;
+
+function sendJson(res: http.ServerResponse, statusCode: number, body: Record<string, any>) {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Error JSON-RPC sin ID, como responde el SDK a las solicitudes de transporte inválidas
+function sendRpcError(res: http.ServerResponse, statusCode: number, message: string) {
+  sendJson(res, statusCode, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+function getSessionId(req: http.IncomingMessage, url: URL): string | undefined {
+  const header = req.headers[SESSION_HEADER];
+  return (Array.isArray(header) ? header[0] : header) ?? url.searchParams.get('sessionId') ?? undefined;
+}
+
+/**
+ * Lee y parsea el cuerpo JSON de la solicitud
+ * Retorna undefined si excede el tamaño máximo o no es JSON válido
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      return undefined;
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Registra una sesión y la elimina cuando se cierra su transporte
+ */
+function openSession(sessionId: string, session: McpSession) {
+  sessions.set(sessionId, session);
+  session.server.server.onclose = () => {
+    sessions.delete(sessionId);
+    logger.info({ sessionId, apiKey: session.scope.name }, 'Sesión MCP HTTP cerrada');
+  };
+  logger.info({ sessionId, apiKey: session.scope.name, sessions: sessions.size }, 'Sesión MCP HTTP iniciada');
+}
+
+/**
+ * Cierra las sesiones Streamable HTTP sin actividad durante config.mcpHttp.sessionTtl ms
+ * (clientes que se desconectaron sin cerrar la sesión); las SSE se cierran al cortarse el stream
+ */
+function sweepIdleSessions() {
+  const expiredBefore = Date.now() - config.mcpHttp.sessionTtl;
+  for (const [sessionId, session] of sessions) {
+    if (session.transport instanceof StreamableHTTPServerTransport && session.lastActivity < expiredBefore) {
+      logger.info({ sessionId, apiKey: session.scope.name }, 'Cerrando sesión MCP HTTP inactiva');
+      session.server.close().catch(error => logger.warn({ error, sessionId }, 'Error cerrando sesión MCP HTTP'));
+    }
+  }
+}
+
+/**
+ * Atiende las solicitudes del transporte HTTP de MCP bajo config.mcpHttp.path:
+ * - `${path}`: Streamable HTTP (POST para mensajes, GET para el stream de notificaciones, DELETE para cerrar)
+ * - `${path}/sse` y `${path}/messages`: transporte SSE de versiones anteriores del protocolo
+ * Retorna false si la ruta no corresponde al transporte MCP
+ */
+export function handleMcpRequest(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+  const path = config.mcpHttp.path;
+  const url = new URL(req.url || '/', 'http://localhost');
+  const route = url.pathname === path ? 'streamable'
+    : url.pathname === `${path}/sse` ? 'sse'
+    : url.pathname === `${path}/messages` ? 'messages'
+    : undefined;
+
+  if (!config.mcpHttp.enabled || !route) {
+    return false;
+  }
+
+  const auth = authenticateMcpRequest(req.headers);
+  if (!auth.valid) {
+    logger.warn({
+      audit: true,
+      reason: auth.reason,
+      method: req.method,
+      url: url.pathname,
+      remoteAddress: req.socket.remoteAddress,
+      forwardedFor: req.headers['x-forwarded-for'],
+      userAgent: req.headers['user-agent']
+    }, 'Solicitud MCP HTTP rechazada por autenticación');
+    sendRpcError(res, 401, `No autorizado: ${auth.reason}`);
+    return true;
+  }
+
+  const task = route === 'sse'
+    ? openSseSession(req, res, auth.scope!)
+    : handleSessionRequest(req, res, url, route, auth.scope!);
+
+  task.catch(error => {
+    logger.error({ error, route, method: req.method }, 'Error en transporte MCP HTTP');
+    if (!res.headersSent) {
+      sendRpcError(res, 500, 'Error interno del servidor');
+    }
+  });
+  return true;
+}
+
+async function openSseSession(req: http.IncomingMessage, res: http.ServerResponse, scope: McpAccessScope) {
+  if (req.method !== 'GET') {
+    sendRpcError(res, 405, 'Método no permitido');
+    return;
+  }
+
+  const transport = new SSEServerTransport(`${config.mcpHttp.path}/messages`, res);
+  const server = createMcpServer(scope);
+  openSession(transport.sessionId, { transport, server, scope, lastActivity: Date.now() });
+  await server.connect(transport);
+}
+
+async function handleSessionRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  url: URL,
+  route: 'streamable' | 'messages',
+  scope: McpAccessScope
+) {
+  const sessionId = getSessionId(req, url);
+
+  // Sin sesión solo se acepta la inicialización de una sesión Streamable HTTP
+  if (!sessionId) {
+    if (route !== 'streamable' || req.method !== 'POST') {
+      sendRpcError(res, 400, 'Falta el ID de sesión');
+      return;
+    }
+
+    // Se valida antes de crear el servidor para no dejar instancias sin sesión
+    const body = await readJsonBody(req);
+    const messages = Array.isArray(body) ? body : [body];
+    if (!messages.some(message => isInitializeRequest(message))) {
+      sendRpcError(res, 400, 'Sin ID de sesión solo se acepta la solicitud de inicialización');
+      return;
+    }
+
+    const server = createMcpServer(scope);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => openSession(id, { transport, server, scope, lastActivity: Date.now() })
+    });
+    await server.connect(transport);
+    try {
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // Si el transporte rechazó la inicialización no queda sesión que cierre el servidor
+      if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+        await server.close().catch(() => undefined);
+      }
+    }
+    return;
+  }
+
+  const session = sessions.get(sessionId);
+  if (!session) {
+    sendRpcError(res, 404, 'Sesión no encontrada');
+    return;
+  }
+
+  // La sesión solo puede usarse con la API key que la creó
+  if (session.scope.name !== scope.name) {
+    logger.warn({ audit: true, sessionId, apiKey: scope.name, owner: session.scope.name }, 'Sesión MCP HTTP usada con otra API key');
+    sendRpcError(res, 403, 'La sesión pertenece a otra API key');
+    return;
+  }
+
+  session.lastActivity = Date.now();
+  if (route === 'streamable' && session.transport instanceof StreamableHTTPServerTransport) {
+    await session.transport.handleRequest(req, res);
+  } else if (route === 'messages' && session.transport instanceof SSEServerTransport && req.method === 'POST') {
+    await session.transport.handlePostMessage(req, res);
+  } else {
+    sendRpcError(res, 400, 'La sesión no corresponde a este transporte');
+  }
+}
+
+/**
+ * Inicia la limpieza de sesiones inactivas y advierte si el transporte no puede usarse
+ */
+export function startMcpHttp() {
+  if (!config.mcpHttp.enabled) {
+    return;
+  }
+
+  if (config.mcpHttp.apiKeys.length === 0) {
+    logger.warn('Transporte MCP HTTP habilitado sin API keys: configure MCP_API_KEYS para aceptar conexiones');
+  }
+
+  sweepTimer = setInterval(sweepIdleSessions, Math.min(config.mcpHttp.sessionTtl, 60000));
+  sweepTimer.unref();
+  logger.info({ path: config.mcpHttp.path, apiKeys: config.mcpHttp.apiKeys.length }, 'Transporte MCP HTTP habilitado');
+}
+
+/**
+ * Cierra todas las sesiones abiertas (los streams SSE impiden cerrar el servidor HTTP)
+ */
+export async function closeMcpSessions() {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = undefined;
+  }
+
+  await Promise.all([...sessions.values()].map(session => session.server.close().catch(() => undefined)));
+  sessions.clear();
+}
@@ -0,0 +1,676 @@
+import { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z, ZodRawShape } from "zod";
+import { logger } from "./config/config.js";
+import { monitorService } from "./lib/monitor.js";
+import { searchService } from "./lib/search.js";
+import { jobQueueService } from "./lib/queue.js";
+import { deadLetterService } from "./lib/dead-letter.js";
+import { pendingWebhookService } from "./lib/pending-webhooks.js";
+import { vectorMigrationService } from "./lib/migration.js";
+import { usageService } from "./lib/usage.js";
+import { budgetService } from "./lib/budget.js";
+import { vectorAuditService } from "./lib/audit.js";
+import { diagnosticService } from "./lib/diagnostics.js";
+import { checkTenantAccess, FULL_ACCESS_SCOPE, McpAccessScope } from "./lib/mcp-auth.js";
+import { VectorSyncStatus } from "./types/vector.js";
+
+/**
+ * Crea un servidor MCP con las herramientas y recursos del servicio
+ * El transporte stdio usa un único servidor con acceso a todos los tenants; cada sesión
+ * HTTP usa su propio servidor, limitado a los tenants de su API key
+ */
+export function createMcpServer(scope: McpAccessScope = FULL_ACCESS_SCOPE): McpServer {
+  const server = new McpServer({
+    name: "vector-sync",
+    version: "1.0.0"
+  });
+
+  // Registra una herramienta que verifica el acceso al tenant antes de ejecutarse
+  // Las herramientas globales solo están disponibles con acceso a todos los tenants
+  const tool = <Args extends ZodRawShape>(name: string, schema: Args, callback: ToolCallback<Args>, global = false) => {
+    const handler = callback as unknown as ToolCallback<ZodRawShape>;
+    const guarded: ToolCallback<ZodRawShape> = (args, extra) => {
+      const tenantId: string | undefined = args.tenant_id;
+      const denied = checkTenantAccess(scope, tenantId, global);
+      if (denied) {
+        logger.warn({ audit: true, tool: name, apiKey: scope.name, tenantId }, "Llamada MCP rechazada por el alcance de la API key");
+        return {
+          content: [{
+            type: "text",
+            text: denied
+          }],
+          isError: true
+        };
+      }
+      return handler(args, extra);
+    };
+    server.tool(name, schema as ZodRawShape, guarded);
+  };
+
+  // Tool: Iniciar sincronización para un tenant específico
+  tool(
+    "sync-tenant",
+    {
+      tenant_id: z.string().uuid(),
+      force: z.boolean().optional()
+    },
+    async ({ tenant_id, force }) => {
+      logger.info({ tenant_id, force }, "Iniciando sincronización manual");
+
+      try {
+        await monitorService.forceSyncTenant(tenant_id, force ?? false);
+        return {
+          content: [{
+            type: "text",
+            text: `Sincronización iniciada exitosamente para tenant ${tenant_id}`
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenant_id }, "Error en sincronización manual");
+        return {
+          content: [{
+            type: "text",
+            text: `Error en sincronización: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool: Obtener estado de sincronización
+  tool(
+    "get-sync-status",
+    {
+      tenant_id: z.string().uuid()
+    },
+    async ({ tenant_id }) => {
+      logger.info({ tenant_id }, "Consultando estado de sincronización");
+
+      try {
+        const status = monitorService.getTenantStatus(tenant_id);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...(status || {
+                inmobiliaria_id: tenant_id,
+                status: 'NO_DATA',
+                message: 'No hay datos de sincronización para este tenant'
+              }),
+              usage: usageService.getTotals(tenant_id),
+              budget: await budgetService.getStatus(tenant_id),
+              rateLimit: monitorService.getRateLimitState(tenant_id),
+              pendingWebhooks: await pendingWebhookService.getStats(tenant_id)
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenant_id }, "Error al consultar estado");
+        return {
+          content: [{
+            type: "text",
+            text: `Error al consultar estado: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool: Reporte de consumo de tokens y costos estimados
+  tool(
+    "get-cost-report",
+    {
+      tenant_id: z.string().uuid().optional(),
+      from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+    },
+    async ({ tenant_id, from, to }) => {
+      logger.info({ tenant_id, from, to }, "Generando reporte de costos");
+
+      try {
+        const report = await usageService.getReport({ tenantId: tenant_id, from, to });
+        // Métricas desde el inicio del servicio (sin filtro de fechas); con tenant_id solo
+        // las del tenant, ya que los totales y el detalle incluyen a todos los tenants
+        const metrics = monitorService.getMetrics();
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...report,
+              metrics: tenant_id
+                ? { tenantMetrics: { [tenant_id]: metrics.tenantMetrics[tenant_id] ?? { processed: 0, errors: 0, tokens: 0, cost: 0 } } }
+                : metrics
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenant_id }, "Error al generar reporte de costos");
+        return {
+          content: [{
+            type: "text",
+            text: `Error al generar reporte de costos: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool: Consultar y ajustar el presupuesto de embeddings de un tenant
+  tool(
+    "manage-budget",
+    {
+      tenant_id: z.string().uuid(),
+      action: z.enum(['get', 'set', 'clear']).optional(),
+      daily_tokens: z.number().int().positive().nullable().optional(),
+      monthly_tokens: z.number().int().positive().nullable().optional(),
+      daily_cost: z.number().positive().nullable().optional(),
+      monthly_cost: z.number().positive().nullable().optional(),
+      soft_limit_ratio: z.number().positive().max(1).optional()
+    },
+    async ({ tenant_id, action = 'get', ...limits }) => {
+      logger.info({ tenant_id, action, limits }, "Gestionando presupuesto de embeddings");
+
+      try {
+        let status;
+        if (action === 'set') {
+          status = await budgetService.setBudget(tenant_id, limits);
+        } else if (action === 'clear') {
+          status = await budgetService.clearBudget(tenant_id);
+        } else {
+          status = await budgetService.getStatus(tenant_id);
+        }
+
+        // Con presupuesto disponible, los trabajos pospuestos se procesan sin esperar al cambio de periodo
+        const released = action !== 'get' && status.state !== 'EXCEEDED'
+          ? await jobQueueService.releaseParkedJobs(tenant_id)
+          : 0;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...status,
+              parkedJobs: await jobQueueService.countParkedJobs(tenant_id),
+              releasedJobs: released
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenant_id, action }, "Error al gestionar presupuesto");
+        return {
+          content: [{
+            type: "text",
+            text: `Error al gestionar presupuesto: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool: Búsqueda semántica de proyectos
+  tool(
+    "search-projects",
+    {
+      tenant_id: z.string().uuid(),
+      query: z.string().min(1),
+      max_results: z.number().int().positive().max(50).optional(),
+      similarity_threshold: z.number().min(0).max(1).optional(),
+      include_metadata: z.boolean().optional()
+    },
+    async ({ tenant_id, query, max_results, similarity_threshold, include_metadata }) => {
+      logger.info({ tenant_id, max_results, similarity_threshold }, "Búsqueda semántica de proyectos");
+
+      try {
+        const results = await searchService.searchProjects(query, tenant_id, {
+          maxResults: max_results,
+          similarityThreshold: similarity_threshold,
+          includeMetadata: include_metadata,
+          filterByTenant: true
+        });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              inmobiliaria_id: tenant_id,
+              query,
+              total: results.length,
+              results
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenant_id }, "Error en búsqueda semántica");
+        return {
+          content: [{
+            type: "text",
+            text: `Error en búsqueda: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool: Listar proyectos fallidos (dead-letter)
+  tool(
+    "list-failed-projects",
+    {
+      tenant_id: z.string().uuid().optional(),
+      limit: z.number().int().positive().max(500).optional()
+    },
+    async ({ tenant_id, limit }) => {
+      logger.info({ tenant_id, limit }, "Listando proyectos fallidos");
+
+      try {
+        const failed = await deadLetterService.list({ tenantId: tenant_id, limit: limit ?? 100 });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ total: failed.length, projects: failed }, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenant_id }, "Error al listar proyectos fallidos");
+        return {
+          content: [{
+            type: "text",
+            text: `Error al listar proyectos fallidos: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool: Reintentar proyectos fallidos (por tenant o por proyecto)
+  tool(
+    "retry-failed-projects",
+    {
+      tenant_id: z.string().uuid(),
+      project_ids: z.array(z.string().uuid()).optional()
+    },
+    async ({ tenant_id, project_ids }) => {
+      logger.info({ tenant_id, project_ids }, "Reintentando proyectos fallidos");
+
+      try {
+        const jobs = await jobQueueService.retryFailedProjects({ tenantId: tenant_id, projectIds: project_ids });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              inmobiliaria_id: tenant_id,
+              retried: jobs.length,
+              jobs: jobs.map(job => ({ jobId: job.id, projectId: job.project_id, event: job.event }))
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenant_id }, "Error al reintentar proyectos fallidos");
+        return {
+          content: [{
+            type: "text",
+            text: `Error al reintentar proyectos fallidos: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool: Reprocesar webhooks pendientes (pending_webhooks)
+  tool(
+    "replay-pending-webhooks",
+    {
+      tenant_id: z.string().uuid().optional(),
+      dry_run: z.boolean().optional(),
+      limit: z.number().int().positive().max(5000).optional()
+    },
+    async ({ tenant_id, dry_run, limit }) => {
+      logger.info({ tenant_id, dry_run, limit }, "Reprocesando webhooks pendientes");
+
+      try {
+        const result = await pendingWebhookService.replay({
+          tenantId: tenant_id,
+          dryRun: dry_run,
+          limit
+        });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenant_id }, "Error al reprocesar webhooks pendientes");
+        return {
+          content: [{
+            type: "text",
+            text: `Error al reprocesar webhooks pendientes: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool: Auditoría de consistencia entre proyectos y vectores de un tenant
+  tool(
+    "audit-tenant",
+    {
+      tenant_id: z.string().uuid(),
+      repair: z.boolean().optional(),
+      issue_limit: z.number().int().positive().max(5000).optional()
+    },
+    async ({ tenant_id, repair, issue_limit }) => {
+      logger.info({ tenant_id, repair, issue_limit }, "Auditando vectores del tenant");
+
+      try {
+        const report = await vectorAuditService.auditTenant(tenant_id, { repair, issueLimit: issue_limit });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(report, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenant_id }, "Error al auditar vectores");
+        return {
+          content: [{
+            type: "text",
+            text: `Error al auditar vectores: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool: Detectar embeddings degenerados y encolar su regeneración
+  tool(
+    "scan-degenerate-vectors",
+    {
+      tenant_id: z.string().uuid().optional(),
+      requeue: z.boolean().optional(),
+      limit: z.number().int().positive().max(5000).optional()
+    },
+    async ({ tenant_id, requeue, limit }) => {
+      logger.info({ tenant_id, requeue, limit }, "Buscando vectores degenerados");
+
+      try {
+        const report = await vectorAuditService.scanDegenerateVectors(tenant_id ?? null, { requeue, limit });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(report, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenant_id }, "Error al buscar vectores degenerados");
+        return {
+          content: [{
+            type: "text",
+            text: `Error al buscar vectores degenerados: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool: Diagnóstico de un proyecto con las verificaciones realizadas y las acciones sugeridas
+  tool(
+    "diagnose-project",
+    {
+      tenant_id: z.string().uuid(),
+      project_id: z.string().uuid()
+    },
+    async ({ tenant_id, project_id }) => {
+      logger.info({ tenant_id, project_id }, "Diagnosticando proyecto");
+
+      try {
+        const report = await diagnosticService.diagnoseProject(tenant_id, project_id);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(report, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenant_id, project_id }, "Error al diagnosticar proyecto");
+        return {
+          content: [{
+            type: "text",
+            text: `Error al diagnosticar proyecto: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool: Diagnóstico de un tenant (sincronización, consistencia, dead-letter y presupuesto)
+  tool(
+    "diagnose-tenant",
+    {
+      tenant_id: z.string().uuid()
+    },
+    async ({ tenant_id }) => {
+      logger.info({ tenant_id }, "Diagnosticando tenant");
+
+      try {
+        const report = await diagnosticService.diagnoseTenant(tenant_id);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(report, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenant_id }, "Error al diagnosticar tenant");
+        return {
+          content: [{
+            type: "text",
+            text: `Error al diagnosticar tenant: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool: Reparar el vector de un proyecto con el pipeline de sincronización
+  tool(
+    "repair-project",
+    {
+      tenant_id: z.string().uuid(),
+      project_id: z.string().uuid(),
+      force: z.boolean().optional()
+    },
+    async ({ tenant_id, project_id, force }) => {
+      logger.info({ tenant_id, project_id, force }, "Reparando proyecto");
+
+      try {
+        const report = await diagnosticService.repairProject(tenant_id, project_id, force);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(report, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenant_id, project_id }, "Error al reparar proyecto");
+        return {
+          content: [{
+            type: "text",
+            text: `Error al reparar proyecto: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool: Controlar el monitor (iniciar/detener)
+  tool(
+    "control-monitor",
+    {
+      action: z.enum(['start', 'stop'])
+    },
+    async ({ action }) => {
+      try {
+        if (action === 'start') {
+          await monitorService.start();
+          return {
+            content: [{
+              type: "text",
+              text: "Monitor iniciado exitosamente"
+            }]
+          };
+        } else {
+          monitorService.stop();
+          return {
+            content: [{
+              type: "text",
+              text: "Monitor detenido exitosamente"
+            }]
+          };
+        }
+      } catch (error) {
+        logger.error({ error, action }, "Error al controlar monitor");
+        return {
+          content: [{
+            type: "text",
+            text: `Error al ${action === 'start' ? 'iniciar' : 'detener'} monitor: ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    },
+    true
+  );
+
+  // Tool: Migrar los embeddings a otro proveedor/modelo
+  tool(
+    "migrate-embeddings",
+    {
+      action: z.enum(['start', 'status', 'list', 'pause', 'resume', 'cutover', 'rollback', 'cancel']),
+      tenant_id: z.string().uuid().optional(),
+      provider: z.enum(['openai', 'azure', 'openai-compatible', 'hash']).optional(),
+      model: z.string().min(1).optional(),
+      migration_id: z.string().uuid().optional(),
+      force: z.boolean().optional()
+    },
+    async ({ action, tenant_id, provider, model, migration_id, force }) => {
+      logger.info({ action, tenant_id, provider, model, migration_id, force }, "Acción de migración de modelo");
+
+      try {
+        let result: unknown;
+        if (action === 'start') {
+          if (!provider) {
+            throw new Error('provider es requerido para iniciar una migración');
+          }
+          result = await vectorMigrationService.start({ tenantId: tenant_id, provider, model });
+        } else if (action === 'list') {
+          result = vectorMigrationService.list(tenant_id);
+        } else {
+          if (!migration_id) {
+            throw new Error(`migration_id es requerido para la acción ${action}`);
+          }
+          switch (action) {
+            case 'status':
+              result = vectorMigrationService.get(migration_id);
+              if (!result) {
+                throw new Error(`Migración ${migration_id} no encontrada`);
+              }
+              break;
+            case 'pause':
+              result = await vectorMigrationService.pause(migration_id);
+              break;
+            case 'resume':
+              result = await vectorMigrationService.resume(migration_id);
+              break;
+            case 'cutover':
+              result = await vectorMigrationService.cutover(migration_id, force);
+              break;
+            case 'rollback':
+              result = await vectorMigrationService.rollback(migration_id);
+              break;
+            case 'cancel':
+              result = await vectorMigrationService.cancel(migration_id);
+              break;
+          }
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, action, migration_id }, "Error en migración de modelo");
+        return {
+          content: [{
+            type: "text",
+            text: `Error en migración de modelo (${action}): ${error instanceof Error ? error.message : 'Error desconocido'}`
+          }],
+          isError: true
+        };
+      }
+    },
+    true
+  );
+
+  // Recurso: Estado de vectores por tenant
+  server.resource(
+    "vector-status",
+    "vector://status/{tenant_id}",
+    async (uri) => {
+      const tenantId = uri.pathname.split('/').pop();
+      if (!tenantId) {
+        throw new Error('Tenant ID no proporcionado');
+      }
+
+      const denied = checkTenantAccess(scope, tenantId);
+      if (denied) {
+        throw new Error(denied);
+      }
+
+      logger.info({ tenantId }, "Consultando estado de vectores");
+
+      try {
+        const status: VectorSyncStatus = monitorService.getTenantStatus(tenantId) || {
+          inmobiliaria_id: tenantId,
+          totalProjects: 0,
+          processedProjects: 0,
+          failedProjects: 0,
+          deletedProjects: 0,
+          skippedProjects: 0,
+          lastSync: new Date(0).toISOString(),
+          status: 'NO_DATA',
+          performance: {
+            averageProcessingTime: 0,
+            tokenCount: usageService.getTotals(tenantId).tokens,
+            costEstimate: usageService.getTotals(tenantId).cost
+          }
+        };
+
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify(status, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error({ error, tenantId }, "Error al obtener estado de vectores");
+        throw error;
+      }
+    }
+  );
+
+  return server;
+}
@@ -0,0 +1,75 @@
+/**
+ * Tipos relacionados con la auditoría de consistencia entre proyectos y vectores
+ */
+
+/**
+ * Problemas detectados por la auditoría
+ * - MISSING_VECTOR: el proyecto no tiene vector
+ * - ORPHAN_VECTOR: el vector no corresponde a ningún proyecto del tenant
+ * - STALE_VECTOR: el proyecto cambió después del vector y su contenido ya no coincide
+ * - WRONG_DIMENSIONS: la dimensión del embedding no es la de la columna configurada
+ * - WRONG_MODEL: el embedding no se generó con el modelo actual del tenant
+ * - CONTENT_MISMATCH: el contenido guardado no coincide con el que genera la plantilla actual
+ */
+export type AuditIssueType =
+  | 'MISSING_VECTOR'
+  | 'ORPHAN_VECTOR'
+  | 'STALE_VECTOR'
+  | 'WRONG_DIMENSIONS'
+  | 'WRONG_MODEL'
+  | 'CONTENT_MISMATCH';
+
+export interface AuditIssue {
+  project_id: string;
+  detail: string;
+}
+
+export interface TenantAuditReport {
+  inmobiliaria_id: string;
+  auditedAt: string;
+  expected: {
+    model: string;
+    dimensions: number;
+  };
+  totals: {
+    projects: number;
+    vectors: number;
+    healthy: number; // Proyectos con vector y sin problemas
+    affectedProjects: number;
+  };
+  counts: Record<AuditIssueType, number>;
+  issues: Record<AuditIssueType, AuditIssue[]>; // Limitados a `issueLimit` por tipo
+  issueLimit: number;
+  repair?: {
+    regenerate: number; // Trabajos encolados para regenerar el embedding
+    remove: number; // Trabajos encolados para eliminar vectores huérfanos
+  };
+}
+
+/**
+ * Motivos por los que un embedding guardado se considera degenerado
+ * - NON_FINITE: contiene NaN o infinitos
+ * - ZERO: todos los valores son cero
+ * - CONSTANT: todos los valores son iguales (p.ej. los antiguos vectores de reparación)
+ * - NEAR_ZERO_NORM: la norma es prácticamente nula (la similitud coseno no es fiable)
+ * - PLACEHOLDER: registrado como no generado por un modelo
+ * - DUPLICATE: idéntico al de otros proyectos con contenido distinto
+ */
+export type DegenerateReason = 'NON_FINITE' | 'ZERO' | 'CONSTANT' | 'NEAR_ZERO_NORM' | 'PLACEHOLDER' | 'DUPLICATE';
+
+export interface DegenerateVector {
+  inmobiliaria_id: string;
+  project_id: string;
+  reasons: DegenerateReason[];
+  duplicateOf?: string[]; // Otros proyectos con el mismo embedding
+}
+
+export interface DegenerateScanReport {
+  inmobiliaria_id: string | null; // null: todos los tenants
+  scannedAt: string;
+  scanned: number;
+  counts: Record<DegenerateReason, number>;
+  vectors: DegenerateVector[]; // Limitados a `limit`
+  limit: number;
+  requeued: number;
+}
@@ -0,0 +1,45 @@
+/**
+ * Tipos relacionados con los presupuestos de embeddings por tenant
+ */
+
+/**
+ * Presupuesto de un tenant; los límites en null no se aplican
+ * Los periodos son el día y el mes UTC en curso
+ */
+export interface TenantBudget {
+  inmobiliaria_id: string;
+  daily_tokens: number | null;
+  monthly_tokens: number | null;
+  daily_cost: number | null; // USD
+  monthly_cost: number | null; // USD
+  soft_limit_ratio: number; // Fracción del límite a partir de la cual se emiten advertencias
+  updated_at: string;
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetMetric = 'tokens' | 'cost';
+
+/**
+ * Estado del presupuesto
+ * - OK: por debajo del límite blando
+ * - WARNING: superó el límite blando de algún límite
+ * - EXCEEDED: alcanzó algún límite; no se generan embeddings hasta que se restablezca el periodo
+ */
+export type BudgetState = 'OK' | 'WARNING' | 'EXCEEDED';
+
+export interface BudgetLimitStatus {
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit: number;
+  used: number;
+  ratio: number;
+  resetsAt: string;
+}
+
+export interface BudgetStatus {
+  inmobiliaria_id: string;
+  budget: TenantBudget | null; // null: sin presupuesto
+  source: 'tenant' | 'default' | 'none';
+  state: BudgetState;
+  limits: BudgetLimitStatus[];
+}
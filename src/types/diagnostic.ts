@@ -0,0 +1,58 @@
+/**
+ * Tipos relacionados con los diagnósticos de proyectos y tenants
+ */
+
+import { ProjectProcessingResult } from './project.js';
+
+/**
+ * Resultado de una verificación
+ * - PASS: correcto
+ * - WARN: no impide la sincronización pero conviene revisarlo
+ * - FAIL: el vector del proyecto (o del tenant) no es utilizable o no está al día
+ * - SKIP: no se pudo evaluar porque falló una verificación previa
+ */
+export type DiagnosticStatus = 'PASS' | 'WARN' | 'FAIL' | 'SKIP';
+
+export interface DiagnosticCheck {
+  name: string;
+  status: DiagnosticStatus;
+  detail: string;
+  suggestedAction?: string;
+}
+
+export interface ProjectDiagnosticReport {
+  inmobiliaria_id: string;
+  project_id: string;
+  diagnosedAt: string;
+  healthy: boolean; // Ninguna verificación con FAIL
+  checks: DiagnosticCheck[];
+  suggestedActions: string[];
+}
+
+export interface TenantDiagnosticReport {
+  inmobiliaria_id: string;
+  diagnosedAt: string;
+  healthy: boolean;
+  checks: DiagnosticCheck[];
+  suggestedActions: string[];
+}
+
+/**
+ * Acción aplicada por la reparación de un proyecto
+ * - REGENERATE: se regeneró el embedding con el pipeline de sincronización
+ * - DELETE_VECTOR: se eliminó el vector de un proyecto que ya no existe
+ * - NONE: no había nada que reparar
+ */
+export type RepairAction = 'REGENERATE' | 'DELETE_VECTOR' | 'NONE';
+
+export interface ProjectRepairReport {
+  inmobiliaria_id: string;
+  project_id: string;
+  action: RepairAction;
+  success: boolean;
+  result?: ProjectProcessingResult;
+  error?: string;
+  durationMs: number;
+  before: ProjectDiagnosticReport;
+  after?: ProjectDiagnosticReport;
+}
@@ -0,0 +1,37 @@
+/**
+ * Tipos relacionados con la cola persistente de trabajos de sincronización
+ */
+
+import { ProjectChange, ProjectProcessingResult } from './project.js';
+
+export type SyncJobStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+
+export interface SyncJob {
+  id: string;
+  inmobiliaria_id: string;
+  project_id: string;
+  event: ProjectChange['changeType'];
+  status: SyncJobStatus;
+  priority: number; // Mayor prioridad se procesa primero
+  attempts: number;
+  max_attempts: number;
+  available_at: string; // El trabajo no se procesa antes de esta fecha
+  locked_until?: string | null; // Timeout de visibilidad mientras está en proceso
+  result?: ProjectProcessingResult | null;
+  last_error?: string | null;
+  payload?: Record<string, any> | null;
+  parked?: boolean; // Pospuesto por presupuesto excedido; se libera al restablecerse o ampliarse
+  force?: boolean; // Regenerar el embedding aunque el contenido no haya cambiado
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EnqueueJobInput {
+  inmobiliaria_id: string;
+  project_id: string;
+  event: ProjectChange['changeType'];
+  priority?: number;
+  delayMs?: number;
+  payload?: Record<string, any>;
+  force?: boolean;
+}
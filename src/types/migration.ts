@@ -0,0 +1,38 @@
+/**
+ * Tipos relacionados con la migración de modelo de embeddings
+ */
+
+import { EmbeddingProviderName } from './vector.js';
+
+/**
+ * Estado de una migración
+ * - RUNNING: re-generando embeddings en la tabla sombra
+ * - PAUSED: detenida (manualmente o por un reinicio), se puede reanudar
+ * - READY: todos los proyectos tienen embedding en la tabla sombra
+ * - CUTOVER: la tabla sombra reemplazó a proyecto_vector y el nuevo modelo está activo
+ * - ROLLED_BACK: se restauraron los vectores anteriores a la migración
+ * - CANCELLED: descartada antes del cambio
+ */
+export type MigrationStatus = 'RUNNING' | 'PAUSED' | 'READY' | 'CUTOVER' | 'ROLLED_BACK' | 'CANCELLED';
+
+export interface VectorMigration {
+  id: string;
+  inmobiliaria_id: string | null; // null: todos los tenants
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  status: MigrationStatus;
+  total_projects: number;
+  processed_projects: number;
+  failed_project_ids: string[]; // Se reintentan al reanudar; impiden el cambio salvo con force
+  token_count: number;
+  cost_estimate: number; // USD
+  cursor: string | null; // Último project_id procesado (orden por id) para reanudar
+  last_error: string | null;
+  started_at: string;
+  completed_at: string | null;
+  cutover_at: string | null;
+  rolled_back_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -22,6 +22,15 @@ export interface ProjectChange {
   timestamp: string;
 }
 
+/**
+ * Resultado del procesamiento de un proyecto individual
+ * - PROCESSED: el vector fue generado/actualizado
+ * - UNCHANGED: el contenido no cambió desde el último embedding, no se regeneró
+ * - DELETED: el proyecto ya no existe y su vector fue eliminado
+ * - NOT_FOUND: el proyecto aún no es visible (posible condición de carrera en INSERT)
+ */
+export type ProjectProcessingResult = 'PROCESSED' | 'UNCHANGED' | 'DELETED' | 'NOT_FOUND';
+
 export interface ProjectProcessingStatus {
   project_id: string;
   inmobiliaria_id: string;
@@ -31,6 +40,21 @@ export interface ProjectProcessingStatus {
   attempts: number;
 }
 
+/**
+ * Proyecto que agotó sus reintentos y quedó en la cola de errores (dead-letter)
+ */
+export interface FailedProject {
+  inmobiliaria_id: string;
+  project_id: string;
+  event: ProjectChange['changeType'];
+  error_class: string;
+  error_message: string;
+  attempts: number;
+  first_failed_at: string;
+  last_attempt: string;
+  payload?: Record<string, any> | null;
+}
+
 export interface ProjectContent {
   id: string;
   inmobiliaria_id: string;
@@ -0,0 +1,40 @@
+/**
+ * Tipos relacionados con las plantillas de contenido para embeddings
+ */
+
+/**
+ * Formato aplicado al valor de un campo
+ * - text: valor tal cual
+ * - price: número formateado (con moneda si la plantilla la define)
+ * - location: objeto de ubicación unido por comas (dirección, comuna, ciudad...)
+ * - list: arreglo unido por comas
+ * - json: valor serializado como JSON
+ */
+export type TemplateFieldFormat = 'text' | 'price' | 'location' | 'list' | 'json';
+
+export interface TemplateField {
+  key: string; // Clave dentro de caracteristicas; admite rutas con punto (p.ej. "ubicacion.comuna")
+  label?: string; // Si se indica, el valor se antepone con "label: "
+  format?: TemplateFieldFormat;
+}
+
+/**
+ * Plantilla declarativa que define qué campos de caracteristicas entran en el embedding
+ * y en qué orden
+ */
+export interface ContentTemplate {
+  fields: TemplateField[];
+  includeRemaining: boolean; // Añadir al final las claves no listadas en fields
+  exclude: string[]; // Claves que nunca se incluyen (también con includeRemaining)
+  separator: string;
+  locale: string;
+  currency?: string; // Código ISO 4217 para los campos price
+}
+
+/**
+ * Contenido generado a partir de una plantilla
+ */
+export interface RenderedContent {
+  content: string;
+  processedFields: string[]; // Campos que aportaron contenido, en orden
+}
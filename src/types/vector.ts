@@ -2,6 +2,8 @@
  * Tipos relacionados con los vectores y embeddings
  */
 
+import { ProjectProcessingStatus } from './project.js';
+
 export interface VectorData {
   id: string;
   inmobiliaria_id: string;
@@ -11,14 +13,29 @@ export interface VectorData {
   metadata: {
     lastUpdate: string;
     contentVersion: number;
+    contentHash?: string; // Huella SHA-256 del contenido preparado + modelo
     processedFields: string[];
     dimensions: number;
     model: string;
+    chunkCount?: number; // Solo en modo fragmentado: número de fragmentos en proyecto_vector_chunk
   };
   created_at?: string;
   updated_at?: string;
 }
 
+/**
+ * Fragmento de un proyecto con contenido largo (tabla proyecto_vector_chunk)
+ * El vector del proyecto en proyecto_vector es el promedio normalizado de sus fragmentos
+ */
+export interface VectorChunk {
+  inmobiliaria_id: string;
+  project_id: string;
+  chunk_index: number;
+  content: string;
+  embedding: number[];
+  token_count: number;
+}
+
 export interface EmbeddingRequest {
   inmobiliaria_id: string;
   project_id: string;
@@ -26,6 +43,17 @@ export interface EmbeddingRequest {
   metadata?: Record<string, any>;
 }
 
+export type EmbeddingProviderName = 'openai' | 'azure' | 'openai-compatible' | 'hash';
+
+/**
+ * Proveedor y modelo con que se generan los embeddings
+ * Sin model se usa el modelo configurado para el proveedor
+ */
+export interface EmbeddingProviderSpec {
+  provider: EmbeddingProviderName;
+  model?: string;
+}
+
 export interface EmbeddingResult {
   success: boolean;
   vector?: number[];
@@ -38,11 +66,35 @@ export interface EmbeddingResult {
   };
 }
 
+/**
+ * Resultado de un request de embeddings
+ * totalTokens es el consumo informado por el proveedor o, si no lo informa,
+ * el recuento del tokenizador local
+ */
+export interface EmbeddingBatchResult {
+  results: EmbeddingResult[];
+  totalTokens: number;
+}
+
+/**
+ * Consumo de embeddings de un tenant en un día (UTC) con un modelo
+ */
+export interface DailyUsage {
+  inmobiliaria_id: string;
+  day: string; // YYYY-MM-DD
+  model: string;
+  tokens: number;
+  cost: number; // USD según la tabla de precios vigente al generar los embeddings
+  requests: number;
+}
+
 export interface VectorSyncStatus {
   inmobiliaria_id: string;
   totalProjects: number;
   processedProjects: number;
   failedProjects: number;
+  deletedProjects: number;
+  skippedProjects: number; // Proyectos sin cambios de contenido (embedding reutilizado)
   lastSync: string;
   status: 'IDLE' | 'SYNCING' | 'ERROR' | 'NO_DATA';
   error?: string;
@@ -53,6 +105,29 @@ export interface VectorSyncStatus {
   };
 }
 
+/**
+ * Estado de sincronización persistido por tenant para sobrevivir a reinicios
+ */
+export interface TenantSyncState {
+  inmobiliaria_id: string;
+  status: VectorSyncStatus;
+  watermark: string | null; // Última verificación incremental completada
+  processing: ProjectProcessingStatus[];
+  updated_at: string;
+}
+
+/**
+ * Vector sin el embedding, con la dimensión calculada en la base de datos
+ * Utilizado por la auditoría de consistencia
+ */
+export interface VectorAuditRow {
+  project_id: string;
+  content: string;
+  metadata: VectorData['metadata'] | null;
+  updated_at: string;
+  dimensions: number;
+}
+
 export interface VectorSearchConfig {
   similarityThreshold: number;
   maxResults: number;
@@ -60,6 +135,15 @@ export interface VectorSearchConfig {
   filterByTenant: boolean;
 }
 
+export interface VectorSearchResult {
+  project_id: string;
+  inmobiliaria_id: string;
+  score: number;
+  content?: string; // En modo fragmentado, el fragmento con mayor similitud
+  metadata?: VectorData['metadata'];
+  matchedChunks?: number; // Fragmentos del proyecto que superan el umbral
+}
+
 export interface VectorSyncMetrics {
   syncStart: string;
   syncEnd?: string;
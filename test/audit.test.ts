@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { inspectEmbedding } from '../src/lib/audit.js';
+
+describe('inspectEmbedding', () => {
+  it('no reporta problemas en un embedding normalizado', () => {
+    expect(inspectEmbedding([0.6, -0.8, 0])).toEqual([]);
+  });
+
+  it('detecta embeddings vacíos o con valores no finitos', () => {
+    expect(inspectEmbedding([])).toEqual(['NON_FINITE']);
+    expect(inspectEmbedding([0.1, NaN, 0.2])).toEqual(['NON_FINITE']);
+    expect(inspectEmbedding([0.1, Infinity])).toEqual(['NON_FINITE']);
+    expect(inspectEmbedding(null as unknown as number[])).toEqual(['NON_FINITE']);
+  });
+
+  it('detecta embeddings en cero sin reportarlos además como constantes', () => {
+    expect(inspectEmbedding([0, 0, 0])).toEqual(['ZERO']);
+  });
+
+  it('detecta embeddings constantes y de norma casi nula', () => {
+    expect(inspectEmbedding([0.5, 0.5, 0.5, 0.5])).toEqual(['CONSTANT']);
+    expect(inspectEmbedding([1e-9, 0, 0])).toEqual(['NEAR_ZERO_NORM']);
+  });
+
+  it('marca los vectores generados como placeholder', () => {
+    expect(inspectEmbedding([0.6, 0.8], { model: 'placeholder' })).toEqual(['PLACEHOLDER']);
+    expect(inspectEmbedding([0, 0], { model: 'placeholder' })).toEqual(['PLACEHOLDER', 'ZERO']);
+  });
+});
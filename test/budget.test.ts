@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BudgetExceededError, BudgetService, MemoryBudgetStore } from '../src/lib/budget.js';
+import { usageService } from '../src/lib/usage.js';
+
+const TENANT = '32b2f8de-3fdc-4618-9510-434ee9014021';
+const MODEL = 'text-embedding-3-small';
+
+function useTokens(dayTokens: number, monthTokens = dayTokens) {
+  vi.spyOn(usageService, 'getPeriodUsage').mockReturnValue({
+    day: { tokens: dayTokens, cost: 0, requests: 1 },
+    month: { tokens: monthTokens, cost: 0, requests: 1 }
+  });
+}
+
+describe('BudgetService', () => {
+  let budgets: BudgetService;
+
+  beforeEach(() => {
+    budgets = new BudgetService(new MemoryBudgetStore());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sin presupuesto no limita el consumo', async () => {
+    useTokens(1_000_000);
+    const status = await budgets.getStatus(TENANT);
+
+    expect(status).toMatchObject({ source: 'none', state: 'OK', limits: [] });
+    await expect(budgets.assertWithinBudget(TENANT, MODEL, 1_000_000)).resolves.toBeUndefined();
+  });
+
+  it('advierte al superar el límite blando', async () => {
+    await budgets.setBudget(TENANT, { daily_tokens: 1000, soft_limit_ratio: 0.8 });
+
+    useTokens(799);
+    expect((await budgets.getStatus(TENANT)).state).toBe('OK');
+
+    useTokens(800);
+    expect((await budgets.getStatus(TENANT)).state).toBe('WARNING');
+  });
+
+  it('permite un lote que alcanza exactamente el límite y rechaza el que lo supera', async () => {
+    await budgets.setBudget(TENANT, { daily_tokens: 1000 });
+    useTokens(900);
+
+    await expect(budgets.assertWithinBudget(TENANT, MODEL, 100)).resolves.toBeUndefined();
+
+    const rejected = budgets.assertWithinBudget(TENANT, MODEL, 101);
+    await expect(rejected).rejects.toBeInstanceOf(BudgetExceededError);
+    await expect(rejected).rejects.toMatchObject({
+      tenantId: TENANT,
+      limits: [expect.objectContaining({ period: 'daily', metric: 'tokens', used: 1001, limit: 1000 })]
+    });
+  });
+
+  it('con el límite ya alcanzado el estado es EXCEEDED', async () => {
+    await budgets.setBudget(TENANT, { daily_tokens: 1000 });
+    useTokens(1000);
+
+    expect((await budgets.getStatus(TENANT)).state).toBe('EXCEEDED');
+  });
+
+  it('evalúa el límite mensual aunque el diario tenga margen', async () => {
+    await budgets.setBudget(TENANT, { daily_tokens: 1000, monthly_tokens: 5000 });
+    useTokens(0, 4990);
+
+    const rejected = budgets.assertWithinBudget(TENANT, MODEL, 20);
+    await expect(rejected).rejects.toMatchObject({
+      limits: [expect.objectContaining({ period: 'monthly', metric: 'tokens' })]
+    });
+    await expect(rejected).rejects.toHaveProperty('retryAt', expect.stringMatching(/-01T00:00:00.000Z$/));
+  });
+
+  it('conserva los límites omitidos y elimina los indicados con null', async () => {
+    await budgets.setBudget(TENANT, { daily_tokens: 1000, monthly_tokens: 5000 });
+    const status = await budgets.setBudget(TENANT, { daily_tokens: null });
+
+    expect(status.budget).toMatchObject({ daily_tokens: null, monthly_tokens: 5000 });
+    expect(status.limits.map(limit => limit.period)).toEqual(['monthly']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeContentHash,
+  DEFAULT_CONTENT_TEMPLATE,
+  renderProjectContent
+} from '../src/lib/content-template.js';
+import { ContentTemplate } from '../src/types/template.js';
+import { Project } from '../src/types/project.js';
+
+function project(caracteristicas: Project['caracteristicas']): Project {
+  return {
+    id: '7b01bc95-e70e-4fb8-8955-e1ac88dd3aac',
+    inmobiliaria_id: '32b2f8de-3fdc-4618-9510-434ee9014021',
+    caracteristicas,
+    updated_at: '2026-01-01T00:00:00.000Z',
+    created_at: '2026-01-01T00:00:00.000Z'
+  };
+}
+
+function template(overrides: Partial<ContentTemplate>): ContentTemplate {
+  return { fields: [], includeRemaining: false, exclude: [], separator: '\n', locale: 'es', ...overrides };
+}
+
+describe('renderProjectContent', () => {
+  it('con la plantilla por defecto agrega el resto de propiedades y omite los valores vacíos', () => {
+    const rendered = renderProjectContent(project({
+      nombre: 'Torre Norte',
+      caracteristicas: 'Departamentos con vista al mar',
+      valor: '',
+      ubicacion: { direccion: 'Av. Costanera 100', comuna: 'Viña del Mar' } as any,
+      amenities: ['piscina', 'gimnasio']
+    }), DEFAULT_CONTENT_TEMPLATE);
+
+    expect(rendered.content).toBe([
+      'Torre Norte',
+      'Descripción: Departamentos con vista al mar',
+      'Ubicación: Av. Costanera 100, Viña del Mar',
+      'amenities: piscina, gimnasio'
+    ].join('\n'));
+    expect(rendered.processedFields).toEqual(['nombre', 'caracteristicas', 'ubicacion', 'amenities']);
+  });
+
+  it('respeta el orden, las etiquetas, los campos anidados y las exclusiones de la plantilla', () => {
+    const rendered = renderProjectContent(project({
+      nombre: 'Torre Norte',
+      detalle: { dormitorios: 3 },
+      interno: 'no indexar'
+    }), template({
+      fields: [{ key: 'detalle.dormitorios', label: 'Dormitorios' }, { key: 'nombre' }, { key: 'interno' }],
+      exclude: ['interno'],
+      separator: ' | '
+    }));
+
+    expect(rendered.content).toBe('Dormitorios: 3 | Torre Norte');
+    expect(rendered.processedFields).toEqual(['detalle.dormitorios', 'nombre']);
+  });
+
+  it('formatea precios numéricos y mantiene los textuales', () => {
+    const fields = [{ key: 'valor', label: 'Precio', format: 'price' as const }];
+
+    expect(renderProjectContent(project({ valor: '1500000' }), template({ fields })).content).toBe('Precio: 1.500.000');
+    expect(renderProjectContent(project({ valor: 'Consultar' }), template({ fields })).content).toBe('Precio: Consultar');
+  });
+});
+
+describe('computeContentHash', () => {
+  it('es estable para el mismo contenido y modelo', () => {
+    expect(computeContentHash('contenido', 'text-embedding-3-small'))
+      .toBe(computeContentHash('contenido', 'text-embedding-3-small'));
+  });
+
+  it('cambia con el contenido o con el modelo', () => {
+    const hash = computeContentHash('contenido', 'text-embedding-3-small');
+    expect(computeContentHash('contenido nuevo', 'text-embedding-3-small')).not.toBe(hash);
+    expect(computeContentHash('contenido', 'text-embedding-3-large')).not.toBe(hash);
+  });
+});
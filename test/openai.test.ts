@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { openaiService } from '../src/lib/openai.js';
+import { rateLimiter } from '../src/lib/rate-limiter.js';
+import { EmbeddingProvider } from '../src/lib/embedding-providers.js';
+
+function rateLimitedProvider(failures: number): EmbeddingProvider & { calls: number } {
+  return {
+    name: 'hash',
+    model: 'test-model',
+    dimensions: 2,
+    calls: 0,
+    async embed(inputs: string[]) {
+      this.calls += 1;
+      if (this.calls <= failures) {
+        throw Object.assign(new Error('Too Many Requests'), { status: 429, headers: { 'retry-after-ms': '1000' } });
+      }
+      return { results: inputs.map(() => ({ success: true, vector: [1, 0] })), totalTokens: inputs.length };
+    }
+  } as EmbeddingProvider & { calls: number };
+}
+
+describe('OpenAIService.generateEmbeddings con limitador de tasa', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('consume un token por intento y pausa el tenant en cada 429', async () => {
+    const tenantId = 'tenant-retries';
+    const schedule = vi.spyOn(rateLimiter, 'schedule');
+    const penalize = vi.spyOn(rateLimiter, 'penalize');
+    const provider = rateLimitedProvider(2);
+
+    const pending = openaiService.generateEmbeddings(['hola'], tenantId, provider);
+    await vi.advanceTimersByTimeAsync(5000);
+    const { embeddings, errors } = await pending;
+
+    expect(errors).toEqual([]);
+    expect(embeddings).toEqual([[1, 0]]);
+    expect(provider.calls).toBe(3);
+    expect(schedule).toHaveBeenCalledTimes(3);
+    expect(penalize).toHaveBeenCalledTimes(2);
+    expect(penalize).toHaveBeenCalledWith(tenantId, 1000);
+  });
+});
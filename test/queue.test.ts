@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { JobQueueService } from '../src/lib/queue.js';
+import { MemoryJobStore } from '../src/lib/job-store.js';
+
+const TENANT = '32b2f8de-3fdc-4618-9510-434ee9014021';
+const PROJECT = '7b01bc95-e70e-4fb8-8955-e1ac88dd3aac';
+const NOW = new Date('2026-01-01T00:00:00.000Z').getTime();
+
+function change(event: 'INSERT' | 'UPDATE' | 'DELETE', extra: Record<string, any> = {}) {
+  return { inmobiliaria_id: TENANT, project_id: PROJECT, event, ...extra };
+}
+
+describe('JobQueueService: agrupación de cambios', () => {
+  let store: MemoryJobStore;
+  let queue: JobQueueService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    store = new MemoryJobStore();
+    queue = new JobQueueService(store);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retrasa las inserciones el tiempo de consistencia', async () => {
+    const job = await queue.enqueue(change('INSERT'));
+    expect(job.available_at).toBe(new Date(NOW + 20000).toISOString());
+  });
+
+  it('agrupa un UPDATE con el INSERT pendiente sin acortar su retraso', async () => {
+    const inserted = await queue.enqueue(change('INSERT'));
+    vi.setSystemTime(NOW + 1000);
+    const merged = await queue.enqueue(change('UPDATE', { payload: { version: 2 } }));
+
+    expect(merged.id).toBe(inserted.id);
+    expect(merged.event).toBe('INSERT');
+    expect(merged.available_at).toBe(new Date(NOW + 20000).toISOString());
+    expect((await queue.getJob(inserted.id))?.payload).toEqual({ version: 2 });
+  });
+
+  it('pospone el trabajo pendiente mientras siguen llegando cambios', async () => {
+    const first = await queue.enqueue(change('UPDATE'));
+    vi.setSystemTime(NOW + 3000);
+    const merged = await queue.enqueue(change('UPDATE'));
+
+    expect(merged.id).toBe(first.id);
+    expect(merged.available_at).toBe(new Date(NOW + 3000 + 5000).toISOString());
+  });
+
+  it('un DELETE reemplaza al evento pendiente y se conservan prioridad y force', async () => {
+    const first = await queue.enqueue(change('UPDATE', { priority: 5, force: true }));
+    const merged = await queue.enqueue(change('DELETE'));
+
+    expect(merged.id).toBe(first.id);
+    expect(merged.event).toBe('DELETE');
+    expect(merged.priority).toBe(5);
+    expect(merged.force).toBe(true);
+  });
+
+  it('crea un trabajo nuevo si el pendiente ya fue reclamado', async () => {
+    const first = await queue.enqueue(change('UPDATE'));
+    vi.setSystemTime(NOW + 10000);
+    await store.claim(10, 60000);
+
+    const next = await queue.enqueue(change('UPDATE'));
+    expect(next.id).not.toBe(first.id);
+    expect(next.status).toBe('PENDING');
+  });
+});
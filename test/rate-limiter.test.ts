@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRetryAfterMs, RateLimiter } from '../src/lib/rate-limiter.js';
+
+describe('getRetryAfterMs', () => {
+  it('ignora los errores que no son 429', () => {
+    expect(getRetryAfterMs(new Error('fallo'))).toBeUndefined();
+    expect(getRetryAfterMs({ status: 500 })).toBeUndefined();
+  });
+
+  it('usa retry-after-ms, luego retry-after en segundos y por defecto 5 segundos', () => {
+    expect(getRetryAfterMs({ status: 429, headers: { 'retry-after-ms': '1500' } })).toBe(1500);
+    expect(getRetryAfterMs({ status: 429, headers: { 'retry-after': '2' } })).toBe(2000);
+    expect(getRetryAfterMs({ status: 429, headers: {} })).toBe(5000);
+  });
+});
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('consume un token por tarea y espera la recarga cuando el bucket se vacía', async () => {
+    const limiter = new RateLimiter(60, 10); // 1 token por segundo
+    const done: number[] = [];
+
+    for (let index = 0; index < 60; index++) {
+      await limiter.schedule('tenant-a', async () => index);
+    }
+    expect(limiter.getState('tenant-a').tokens).toBe(0);
+
+    const pending = limiter.schedule('tenant-a', async () => done.push(1));
+    await vi.advanceTimersByTimeAsync(500);
+    expect(done).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await pending;
+    expect(done).toHaveLength(1);
+  });
+
+  it('mantiene buckets independientes por tenant', async () => {
+    const limiter = new RateLimiter(1, 10);
+    await limiter.schedule('tenant-a', async () => undefined);
+
+    const other = vi.fn(async () => 'ok');
+    await expect(limiter.schedule('tenant-b', other)).resolves.toBe('ok');
+    expect(limiter.getState('tenant-a').tokens).toBe(0);
+    expect(limiter.getState('tenant-b').tokens).toBe(0);
+  });
+
+  it('limita las tareas simultáneas de un tenant', async () => {
+    const limiter = new RateLimiter(100, 2);
+    let active = 0;
+    let maxActive = 0;
+    const task = async () => {
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      active -= 1;
+    };
+
+    const tasks = Promise.all([1, 2, 3, 4, 5].map(() => limiter.schedule('tenant-a', task)));
+    expect(limiter.getState('tenant-a').queued).toBeGreaterThan(0);
+    await vi.advanceTimersByTimeAsync(1000);
+    await tasks;
+
+    expect(maxActive).toBe(2);
+    expect(limiter.getState('tenant-a').active).toBe(0);
+  });
+
+  it('pausa el tenant según Retry-After cuando la tarea falla con 429', async () => {
+    const limiter = new RateLimiter(100, 2);
+    const rateLimited = Object.assign(new Error('Too Many Requests'), {
+      status: 429,
+      headers: { 'retry-after': '3' }
+    });
+
+    await expect(limiter.schedule('tenant-a', async () => { throw rateLimited; })).rejects.toBe(rateLimited);
+    expect(limiter.getState('tenant-a').blockedUntil).toBeDefined();
+
+    const next = vi.fn(async () => undefined);
+    const pending = limiter.schedule('tenant-a', next);
+    await vi.advanceTimersByTimeAsync(2900);
+    expect(next).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(200);
+    await pending;
+    expect(next).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { countTokens, splitIntoChunks, truncateToTokens } from '../src/lib/tokenizer.js';
+
+const TEXT = 'Departamento de 3 dormitorios con vista al mar, piscina y gimnasio. '.repeat(20);
+// Emojis y caracteres CJK ocupan varios tokens: un corte arbitrario puede partirlos
+const MULTIBYTE = '🏠🏡🏢 casa 漢字テスト 🦄🦄🦄 ñandú '.repeat(20);
+
+describe('truncateToTokens', () => {
+  it('no modifica un texto que cabe en el límite', () => {
+    expect(truncateToTokens('hola mundo', 100)).toEqual({ text: 'hola mundo', tokens: countTokens('hola mundo'), truncated: false });
+  });
+
+  it('trunca al número de tokens indicado', () => {
+    const result = truncateToTokens(TEXT, 10);
+
+    expect(result.truncated).toBe(true);
+    expect(result.tokens).toBe(10);
+    expect(TEXT.startsWith(result.text)).toBe(true);
+    expect(countTokens(result.text)).toBe(10);
+  });
+
+  it('no corta caracteres multibyte', () => {
+    for (let maxTokens = 1; maxTokens <= 40; maxTokens++) {
+      const result = truncateToTokens(MULTIBYTE, maxTokens);
+      expect(result.text).not.toContain('�');
+      expect(result.tokens).toBeLessThanOrEqual(maxTokens);
+      expect(MULTIBYTE.startsWith(result.text)).toBe(true);
+    }
+  });
+});
+
+describe('splitIntoChunks', () => {
+  it('retorna el texto completo si cabe en un fragmento', () => {
+    expect(splitIntoChunks('hola mundo', 100, 10)).toEqual(['hola mundo']);
+  });
+
+  it('divide en fragmentos del tamaño indicado que cubren todo el texto', () => {
+    const chunks = splitIntoChunks(TEXT, 50, 0);
+
+    expect(chunks.length).toBe(Math.ceil(countTokens(TEXT) / 50));
+    expect(chunks.join('')).toBe(TEXT);
+    chunks.forEach(chunk => expect(countTokens(chunk)).toBeLessThanOrEqual(50));
+  });
+
+  it('solapa cada fragmento con el final del anterior', () => {
+    const chunks = splitIntoChunks(TEXT, 50, 10);
+
+    expect(chunks.length).toBe(Math.ceil((countTokens(TEXT) - 10) / 40));
+    for (let index = 1; index < chunks.length; index++) {
+      const overlap = chunks[index].slice(0, 20);
+      expect(chunks[index - 1]).toContain(overlap);
+    }
+  });
+
+  it('ajusta los cortes para no partir caracteres multibyte', () => {
+    for (const [chunkTokens, overlapTokens] of [[5, 0], [7, 2], [13, 4]]) {
+      const chunks = splitIntoChunks(MULTIBYTE, chunkTokens, overlapTokens);
+
+      chunks.forEach(chunk => expect(chunk).not.toContain('�'));
+      if (overlapTokens === 0) {
+        expect(chunks.join('')).toBe(MULTIBYTE);
+      }
+    }
+  });
+});
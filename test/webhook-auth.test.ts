@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// La configuración se lee al importarse: los secretos deben definirse antes
+vi.hoisted(() => {
+  process.env.WEBHOOK_SECRET = 'secreto-actual-0123456789';
+  process.env.WEBHOOK_SECRET_PREVIOUS = 'secreto-anterior-0123456789';
+});
+
+import { config } from '../src/config/config.js';
+import {
+  signWebhookPayload,
+  verifyJobStatusRequest,
+  verifyWebhookRequest
+} from '../src/lib/webhook-auth.js';
+
+const SECRET = 'secreto-actual-0123456789';
+const NOW = new Date('2026-01-01T00:00:00.000Z').getTime();
+const JOB_PATH = '/webhook/jobs/00000000-0000-0000-0000-000000000001';
+const BODY = Buffer.from(JSON.stringify({ inmobiliaria_id: 'tenant', project_id: 'project', event: 'UPDATE' }));
+
+function signedHeaders(secret: string, body: Buffer | string, timestamp = String(NOW / 1000)) {
+  return {
+    'x-webhook-timestamp': timestamp,
+    'x-webhook-signature': `sha256=${signWebhookPayload(secret, timestamp, body)}`
+  };
+}
+
+describe('verifyWebhookRequest', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('acepta la firma con el secreto actual o con el anterior durante la rotación', () => {
+    expect(verifyWebhookRequest(signedHeaders(SECRET, BODY), BODY)).toEqual({ valid: true });
+    expect(verifyWebhookRequest(signedHeaders('secreto-anterior-0123456789', BODY), BODY)).toEqual({ valid: true });
+  });
+
+  it('rechaza firmas con otro secreto o sobre otro cuerpo', () => {
+    expect(verifyWebhookRequest(signedHeaders('otro-secreto-0123456789', BODY), BODY).valid).toBe(false);
+    expect(verifyWebhookRequest(signedHeaders(SECRET, '{}'), BODY).valid).toBe(false);
+  });
+
+  it('rechaza solicitudes sin cabeceras o con timestamp inválido', () => {
+    expect(verifyWebhookRequest({}, BODY).valid).toBe(false);
+    expect(verifyWebhookRequest(signedHeaders(SECRET, BODY, 'ayer'), BODY).reason).toBe('Timestamp inválido');
+  });
+
+  it('rechaza timestamps fuera de la tolerancia para evitar replays', () => {
+    const old = String(NOW / 1000 - config.webhook.timestampTolerance - 1);
+    expect(verifyWebhookRequest(signedHeaders(SECRET, BODY, old), BODY).reason)
+      .toBe('Timestamp fuera de la tolerancia permitida');
+  });
+
+  describe('con WEBHOOK_BEARER_TOKEN', () => {
+    const token = 'token-bearer-0123456789';
+
+    beforeEach(() => {
+      config.webhook.bearerToken = token;
+    });
+
+    afterEach(() => {
+      config.webhook.bearerToken = undefined;
+    });
+
+    it('exige además el token bearer', () => {
+      expect(verifyWebhookRequest(signedHeaders(SECRET, BODY), BODY).valid).toBe(false);
+      expect(verifyWebhookRequest({ ...signedHeaders(SECRET, BODY), authorization: `Bearer ${token}` }, BODY))
+        .toEqual({ valid: true });
+    });
+
+    it('la consulta de trabajos se autentica solo con el token', () => {
+      expect(verifyJobStatusRequest({ authorization: `Bearer ${token}` }, 'GET', JOB_PATH)).toEqual({ valid: true });
+      expect(verifyJobStatusRequest({ authorization: 'Bearer otro' }, 'GET', JOB_PATH).valid).toBe(false);
+    });
+  });
+
+  it('sin token bearer, la consulta de trabajos exige la firma del método y la ruta', () => {
+    const headers = signedHeaders(SECRET, `GET ${JOB_PATH}`);
+    expect(verifyJobStatusRequest({}, 'GET', JOB_PATH).valid).toBe(false);
+    expect(verifyJobStatusRequest(headers, 'GET', JOB_PATH)).toEqual({ valid: true });
+    expect(verifyJobStatusRequest(headers, 'GET', '/webhook/jobs/00000000-0000-0000-0000-000000000002').valid).toBe(false);
+    expect(verifyJobStatusRequest(signedHeaders(SECRET, ''), 'GET', JOB_PATH).valid).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { parseWebhookPayload } from '../src/lib/webhook-payload.js';
+
+const TENANT = '32b2f8de-3fdc-4618-9510-434ee9014021';
+const PROJECT = '7b01bc95-e70e-4fb8-8955-e1ac88dd3aac';
+const ROW = {
+  id: PROJECT,
+  inmobiliaria_id: TENANT,
+  nombre: 'Torre Norte',
+  updated_at: '2026-01-01T00:00:00.000Z'
+};
+
+describe('parseWebhookPayload', () => {
+  it('acepta el formato propio y asume UPDATE si el evento no es INSERT o DELETE', () => {
+    expect(parseWebhookPayload({ inmobiliaria_id: TENANT, project_id: PROJECT, event: 'DELETE' })).toEqual({
+      ok: true,
+      webhook: { format: 'custom', inmobiliaria_id: TENANT, project_id: PROJECT, event: 'DELETE' }
+    });
+
+    const parsed = parseWebhookPayload({ inmobiliaria_id: TENANT, project_id: PROJECT, event: 'OTRO' });
+    expect(parsed.ok && parsed.webhook.event).toBe('UPDATE');
+  });
+
+  it('rechaza el formato propio sin tenant o proyecto', () => {
+    expect(parseWebhookPayload({ project_id: PROJECT })).toEqual({
+      ok: false,
+      error: 'Datos incompletos: se requiere inmobiliaria_id y project_id'
+    });
+    expect(parseWebhookPayload(null).ok).toBe(false);
+  });
+
+  it('toma la fila de record en los Database Webhooks de INSERT y UPDATE', () => {
+    const parsed = parseWebhookPayload({ type: 'INSERT', table: 'proyectos', schema: 'public', record: ROW, old_record: null });
+
+    expect(parsed).toEqual({
+      ok: true,
+      webhook: {
+        format: 'supabase',
+        inmobiliaria_id: TENANT,
+        project_id: PROJECT,
+        event: 'INSERT',
+        change: { project: ROW, changeType: 'INSERT', timestamp: ROW.updated_at }
+      }
+    });
+  });
+
+  it('toma la fila de old_record en los Database Webhooks de DELETE', () => {
+    const parsed = parseWebhookPayload({ type: 'DELETE', table: 'proyectos', schema: 'public', record: null, old_record: ROW });
+
+    expect(parsed.ok).toBe(true);
+    expect(parsed.ok && parsed.webhook.event).toBe('DELETE');
+    expect(parsed.ok && parsed.webhook.project_id).toBe(PROJECT);
+  });
+
+  it('rechaza otras tablas, eventos no soportados y filas incompletas', () => {
+    expect(parseWebhookPayload({ type: 'UPDATE', table: 'usuarios', schema: 'public', record: ROW })).toEqual({
+      ok: false,
+      error: 'Tabla no soportada: public.usuarios'
+    });
+    expect(parseWebhookPayload({ type: 'TRUNCATE', table: 'proyectos', record: null }).ok).toBe(false);
+    expect(parseWebhookPayload({ type: 'UPDATE', table: 'proyectos', record: { id: PROJECT } }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // La configuración se valida al importarse: el modo demo no requiere credenciales de Supabase ni OpenAI
+    env: {
+      DEMO_MODE: 'true',
+      LOG_LEVEL: 'error'
+    }
+  }
+});